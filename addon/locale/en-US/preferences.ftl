@@ -1,5 +1,86 @@
-pref-title = Addon Template Example
-pref-enable =
-    .label = Enable
-pref-input = Input
-pref-help = { $name } Build { $version } { $time }
\ No newline at end of file
+pref-title = Export
+pref-default-format =
+    .value = Default format:
+pref-export-directory = Default folder:
+pref-browse =
+    .label = Browse…
+pref-filename-pattern = File name:
+pref-filename-pattern-help =
+    .value = Tokens: {"{"}citekey{"}"}, {"{"}title{"}"}, {"{"}firstAuthor{"}"}, {"{"}year{"}"}, {"{"}itemKey{"}"}
+pref-filename-collision =
+    .value = If the file exists:
+pref-filename-collision-suffix =
+    .label = Add a number
+pref-filename-collision-overwrite =
+    .label = Overwrite
+pref-filename-collision-skip =
+    .label = Skip
+pref-content-title = Content
+pref-include-abstract =
+    .label = Include abstract
+pref-include-notes =
+    .label = Include child notes in a Notes section
+pref-metadata-fields = Metadata fields:
+pref-metadata-fields-help =
+    .value = Comma-separated: authors, date, publication, doi, url, zoteroKey, citekey
+pref-tag-style =
+    .value = Tags:
+pref-tag-style-native =
+    .label = Native (org :tag: / markdown #tag)
+pref-tag-style-list =
+    .label = Plain list
+pref-tag-style-none =
+    .label = Omit
+pref-link-style =
+    .value = Links:
+pref-link-style-label =
+    .label = Labelled link (Page N)
+pref-link-style-url =
+    .label = Bare URL
+pref-link-style-none =
+    .label = Omit
+pref-link-target =
+    .value = Links open:
+pref-link-target-open =
+    .label = Annotation in the reader
+pref-link-target-select =
+    .label = Attachment in the library
+pref-link-target-web =
+    .label = Attachment in the web library
+pref-sort-order =
+    .value = Order annotations by:
+pref-sort-order-position =
+    .label = Position in document
+pref-sort-order-date-added =
+    .label = Date added
+pref-sort-order-date-modified =
+    .label = Date modified
+pref-group-by-color =
+    .label = Group annotations by color
+pref-group-by-outline =
+    .label = Nest annotations under the table of contents (PDF bookmarks, EPUB chapters)
+pref-show-color =
+    .label = Show annotation colors
+pref-citations =
+    .label = Cite each quote with its citekey ([cite:@key, p. 12] / [@key, p. 12])
+pref-embed-keys =
+    .label = Embed annotation keys (enables sync)
+pref-color-legend-title = Color legend
+pref-color-legend-help =
+    .value = One color and its meaning per line, e.g. #ffd400 = Claim. Leave empty for Zotero's color names.
+pref-color-legend-save =
+    .label = Save Legend
+pref-templates-title = Templates
+pref-templates-help =
+    .value = JSON list of template sets, e.g. [{"{"}"name": "brief", "format": "md", "highlight": "…"{"}"}]. Choose one with "Save with Template to File...".
+pref-templates-save =
+    .label = Save Templates
+pref-auto-export-title = Automatic export
+pref-auto-export =
+    .label = Update notes files when annotations change
+pref-auto-export-directory = Folder:
+pref-auto-export-format =
+    .value = Format:
+pref-auto-export-filename = File name:
+pref-auto-export-delay = Delay (seconds):
+pref-help = { $name } Build { $version } { $time }
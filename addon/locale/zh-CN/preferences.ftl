@@ -1,5 +1,86 @@
-pref-title = 插件模板设置示例
-pref-enable =
-    .label = 开启
-pref-input = 输入
-pref-help = { $name } Build { $version } { $time }
\ No newline at end of file
+pref-title = 导出
+pref-default-format =
+    .value = 默认格式：
+pref-export-directory = 默认文件夹：
+pref-browse =
+    .label = 浏览…
+pref-filename-pattern = 文件名：
+pref-filename-pattern-help =
+    .value = 可用变量：{"{"}citekey{"}"}、{"{"}title{"}"}、{"{"}firstAuthor{"}"}、{"{"}year{"}"}、{"{"}itemKey{"}"}
+pref-filename-collision =
+    .value = 文件已存在时：
+pref-filename-collision-suffix =
+    .label = 添加编号
+pref-filename-collision-overwrite =
+    .label = 覆盖
+pref-filename-collision-skip =
+    .label = 跳过
+pref-content-title = 内容
+pref-include-abstract =
+    .label = 包含摘要
+pref-include-notes =
+    .label = 在“笔记”部分中包含子笔记
+pref-metadata-fields = 元数据字段：
+pref-metadata-fields-help =
+    .value = 以逗号分隔：authors, date, publication, doi, url, zoteroKey, citekey
+pref-tag-style =
+    .value = 标签：
+pref-tag-style-native =
+    .label = 原生格式（org :tag: / markdown #tag）
+pref-tag-style-list =
+    .label = 纯文本列表
+pref-tag-style-none =
+    .label = 省略
+pref-link-style =
+    .value = 链接：
+pref-link-style-label =
+    .label = 带标签的链接（第 N 页）
+pref-link-style-url =
+    .label = 仅 URL
+pref-link-style-none =
+    .label = 省略
+pref-link-target =
+    .value = 链接打开：
+pref-link-target-open =
+    .label = 阅读器中的注释
+pref-link-target-select =
+    .label = 文库中的附件
+pref-link-target-web =
+    .label = 网页版文库中的附件
+pref-sort-order =
+    .value = 注释排序：
+pref-sort-order-position =
+    .label = 文档中的位置
+pref-sort-order-date-added =
+    .label = 添加日期
+pref-sort-order-date-modified =
+    .label = 修改日期
+pref-group-by-color =
+    .label = 按颜色分组注释
+pref-group-by-outline =
+    .label = 按目录嵌套注释（PDF 书签、EPUB 章节）
+pref-show-color =
+    .label = 显示注释颜色
+pref-citations =
+    .label = 在每条引文后添加引用（[cite:@key, p. 12] / [@key, p. 12]）
+pref-embed-keys =
+    .label = 嵌入注释键（用于同步）
+pref-color-legend-title = 颜色图例
+pref-color-legend-help =
+    .value = 每行一个颜色及其含义，例如 #ffd400 = 论点。留空则使用 Zotero 的颜色名称。
+pref-color-legend-save =
+    .label = 保存图例
+pref-templates-title = 模板
+pref-templates-help =
+    .value = 模板集的 JSON 列表，例如 [{"{"}"name": "brief", "format": "md", "highlight": "…"{"}"}]。通过“使用模板保存到文件…”选择模板。
+pref-templates-save =
+    .label = 保存模板
+pref-auto-export-title = 自动导出
+pref-auto-export =
+    .label = 注释更改时更新笔记文件
+pref-auto-export-directory = 文件夹：
+pref-auto-export-format =
+    .value = 格式：
+pref-auto-export-filename = 文件名：
+pref-auto-export-delay = 延迟（秒）：
+pref-help = { $name } Build { $version } { $time }
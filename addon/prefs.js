@@ -1,2 +1,23 @@
-pref("enable", true);
-pref("input", "This is input");
+pref("defaultFormat", "md");
+pref("exportDirectory", "");
+pref("filenamePattern", "{title}");
+pref("filenameCollision", "suffix");
+pref("includeAbstract", true);
+pref("includeNotes", false);
+pref("metadataFields", "authors,date,publication,doi,url,zoteroKey,citekey");
+pref("tagStyle", "native");
+pref("linkStyle", "label");
+pref("linkTarget", "open");
+pref("sortOrder", "position");
+pref("templates", "[]");
+pref("colorLegend", "");
+pref("groupByColor", false);
+pref("groupByOutline", false);
+pref("showColor", false);
+pref("citations", false);
+pref("embedKeys", false);
+pref("autoExport", false);
+pref("autoExportDir", "");
+pref("autoExportFormat", "md");
+pref("autoExportFilename", "{citekey}");
+pref("autoExportDelay", 5);
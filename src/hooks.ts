@@ -3,7 +3,9 @@
  */
 
 import { ApiEndpoints } from "./modules/api";
+import { AutoExport } from "./modules/autoExport";
 import { MenuFactory } from "./modules/menu";
+import { PreferencePane } from "./modules/preferences";
 import { createZToolkit } from "./utils/ztoolkit";
 
 async function onStartup() {
@@ -13,9 +15,14 @@ async function onStartup() {
     Zotero.uiReadyPromise,
   ]);
 
+  PreferencePane.register();
+
   // Register HTTP API endpoints
   ApiEndpoints.register();
 
+  // Watch annotation changes for auto-export (no-op unless enabled)
+  AutoExport.register();
+
   await Promise.all(
     Zotero.getMainWindows().map((win) => onMainWindowLoad(win)),
   );
@@ -27,8 +34,11 @@ async function onMainWindowLoad(win: _ZoteroTypes.MainWindow): Promise<void> {
   // Create ztoolkit for every window
   addon.data.ztoolkit = createZToolkit();
 
-  // Register the context menu
+  // Register the context menus
   MenuFactory.registerItemContextMenu();
+  MenuFactory.registerCollectionContextMenu();
+  MenuFactory.registerSavedSearchContextMenu();
+  MenuFactory.registerTagContextMenu(win);
 }
 
 async function onMainWindowUnload(_win: Window): Promise<void> {
@@ -36,15 +46,30 @@ async function onMainWindowUnload(_win: Window): Promise<void> {
 }
 
 function onShutdown(): void {
+  AutoExport.unregister();
   ztoolkit.unregisterAll();
   addon.data.alive = false;
   // @ts-expect-error - Plugin instance is not typed
   delete Zotero[addon.data.config.addonInstance];
 }
 
+/**
+ * Called from preferences.xhtml.
+ */
+async function onPrefsEvent(type: string, data: { window: Window }) {
+  switch (type) {
+    case "load":
+      PreferencePane.onLoad(data.window);
+      break;
+    default:
+      return;
+  }
+}
+
 export default {
   onStartup,
   onShutdown,
   onMainWindowLoad,
   onMainWindowUnload,
+  onPrefsEvent,
 };
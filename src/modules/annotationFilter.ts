@@ -0,0 +1,279 @@
+/**
+ * Annotation filters for exports.
+ *
+ * A filter is given in API request bodies as "filter" and built by the
+ * filter dialog in the context menu:
+ *   {
+ *     "tags": ["important"],          // at least one of these tags
+ *     "allTags": ["method"],          // all of these tags
+ *     "excludeTags": ["skip"],        // none of these tags
+ *     "colors": ["#ffd400", "Claim"], // hex or color legend label
+ *     "excludeColors": ["#aaaaaa"],
+ *     "types": ["highlight", "note"],
+ *     "pages": "1-10, 15, 20-",       // page labels, or page number if not numeric
+ *     "modifiedSince": "2024-01-31",  // ISO date/time
+ *     "authors": ["Jane Doe"],        // annotation author (group libraries)
+ *     "attachments": ["ATTKEY01"],    // only these attachments (item keys)
+ *     "keys": ["ANNOTKEY"]            // only these annotations
+ *   }
+ * All given criteria must match; omitted criteria match everything.
+ */
+
+import { ZoteroAnnotation } from "./annotationFormatter";
+import { AnnotationLocation } from "./annotationLocation";
+import { ColorLegend } from "./colorLegend";
+
+export const ANNOTATION_TYPES = [
+  "highlight",
+  "underline",
+  "note",
+  "image",
+  "ink",
+];
+
+export interface AnnotationFilter {
+  tags?: string[];
+  allTags?: string[];
+  excludeTags?: string[];
+  colors?: string[];
+  excludeColors?: string[];
+  types?: string[];
+  /** Page ranges, e.g. "1-10, 15, 20-" */
+  pages?: string;
+  /** ISO date/time; annotations modified before it are left out */
+  modifiedSince?: string;
+  authors?: string[];
+  /** Keys of the attachments to export from */
+  attachments?: string[];
+  /** Keys of the annotations to export */
+  keys?: string[];
+}
+
+interface PageRange {
+  from: number;
+  to: number;
+}
+
+// Type for annotation author fields (not in ZoteroAnnotation)
+interface AnnotationAuthor {
+  annotationAuthorName?: string;
+  createdByUserID?: number | null;
+}
+
+const LIST_FIELDS = [
+  "tags",
+  "allTags",
+  "excludeTags",
+  "colors",
+  "excludeColors",
+  "types",
+  "authors",
+  "attachments",
+  "keys",
+] as const;
+
+/**
+ * Parse "1-10, 15, 20-" into ranges. Returns null if the spec is invalid.
+ */
+export function parsePageRanges(spec: string): PageRange[] | null {
+  const ranges: PageRange[] = [];
+  for (const part of spec.split(",").map((p) => p.trim())) {
+    if (!part) continue;
+    const match = part.match(/^(\d+)?\s*(-)?\s*(\d+)?$/);
+    if (!match || (!match[1] && !match[3])) return null;
+
+    const from = match[1] ? parseInt(match[1]) : 1;
+    const to = match[3] ? parseInt(match[3]) : match[2] ? Infinity : from;
+    if (to < from) return null;
+    ranges.push({ from, to });
+  }
+  return ranges;
+}
+
+/**
+ * Parse a Zotero SQL date ("YYYY-MM-DD HH:MM:SS", UTC).
+ */
+function parseSQLDate(date: string): Date {
+  return new Date(date.replace(" ", "T") + "Z");
+}
+
+export class AnnotationFilters {
+  /**
+   * Validate a filter from a request body.
+   * Returns the filter, or an error message.
+   */
+  static parse(value: unknown): { filter?: AnnotationFilter; error?: string } {
+    if (value === undefined || value === null) return {};
+    if (typeof value !== "object" || Array.isArray(value)) {
+      return { error: "'filter' must be an object" };
+    }
+
+    const raw = value as Record<string, unknown>;
+    const filter: AnnotationFilter = {};
+
+    for (const field of LIST_FIELDS) {
+      const list = raw[field];
+      if (list === undefined) continue;
+      if (!Array.isArray(list) || !list.every((v) => typeof v === "string")) {
+        return { error: `'filter.${field}' must be an array of strings` };
+      }
+      filter[field] = list;
+    }
+
+    const unknownType = filter.types?.find(
+      (t) => !ANNOTATION_TYPES.includes(t),
+    );
+    if (unknownType) {
+      return { error: `Unknown annotation type in filter: ${unknownType}` };
+    }
+
+    if (raw.pages !== undefined) {
+      if (typeof raw.pages !== "string" || !parsePageRanges(raw.pages)) {
+        return { error: `Invalid page ranges in filter: ${String(raw.pages)}` };
+      }
+      filter.pages = raw.pages;
+    }
+
+    if (raw.modifiedSince !== undefined) {
+      if (
+        typeof raw.modifiedSince !== "string" ||
+        isNaN(Date.parse(raw.modifiedSince))
+      ) {
+        return {
+          error: `Invalid date in filter: ${String(raw.modifiedSince)}`,
+        };
+      }
+      filter.modifiedSince = raw.modifiedSince;
+    }
+
+    return { filter };
+  }
+
+  /**
+   * Whether a filter has any criteria.
+   */
+  static isEmpty(filter: AnnotationFilter | undefined): boolean {
+    return (
+      !filter ||
+      Object.values(filter).every(
+        (v) => v === undefined || v === "" || (Array.isArray(v) && !v.length),
+      )
+    );
+  }
+
+  /**
+   * Keep the annotations matching a filter.
+   */
+  static apply(
+    annotations: ZoteroAnnotation[],
+    filter: AnnotationFilter | undefined,
+    legend?: Record<string, string>,
+  ): ZoteroAnnotation[] {
+    if (this.isEmpty(filter)) return annotations;
+    const matcher = this.matcher(filter!, legend);
+    return annotations.filter(matcher);
+  }
+
+  /**
+   * Build a predicate for a filter. Colors given as legend labels are
+   * resolved once here.
+   */
+  static matcher(
+    filter: AnnotationFilter,
+    legend: Record<string, string> = ColorLegend.get(),
+  ): (annotation: ZoteroAnnotation) => boolean {
+    const toColors = (list?: string[]) =>
+      list?.length ? new Set(list.map((c) => resolveColor(c, legend))) : null;
+    const lower = (list?: string[]) =>
+      list?.length ? new Set(list.map((v) => v.trim().toLowerCase())) : null;
+
+    const tags = lower(filter.tags);
+    const allTags = lower(filter.allTags);
+    const excludeTags = lower(filter.excludeTags);
+    const colors = toColors(filter.colors);
+    const excludeColors = toColors(filter.excludeColors);
+    const types = filter.types?.length ? new Set(filter.types) : null;
+    const authors = lower(filter.authors);
+    const pages = filter.pages ? parsePageRanges(filter.pages) : null;
+    const since = filter.modifiedSince ? new Date(filter.modifiedSince) : null;
+    const attachments = filter.attachments?.length
+      ? new Set(filter.attachments)
+      : null;
+    const keys = filter.keys?.length ? new Set(filter.keys) : null;
+
+    return (annotation) => {
+      const annotationTags = (annotation.getTags() || []).map((t) =>
+        t.tag.toLowerCase(),
+      );
+      const color = (annotation.annotationColor || "").toLowerCase();
+
+      if (tags && !annotationTags.some((t) => tags.has(t))) return false;
+      if (allTags && [...allTags].some((t) => !annotationTags.includes(t))) {
+        return false;
+      }
+      if (excludeTags && annotationTags.some((t) => excludeTags.has(t))) {
+        return false;
+      }
+      if (colors && !colors.has(color)) return false;
+      if (excludeColors && excludeColors.has(color)) return false;
+      if (types && !types.has(annotation.annotationType)) return false;
+      if (
+        pages?.length &&
+        !pages.some((r) =>
+          inRange(AnnotationLocation.pageNumber(annotation), r),
+        )
+      ) {
+        return false;
+      }
+      if (
+        since &&
+        !(
+          annotation.dateModified &&
+          parseSQLDate(annotation.dateModified) >= since
+        )
+      ) {
+        return false;
+      }
+      if (authors && !authors.has(authorName(annotation).toLowerCase())) {
+        return false;
+      }
+      if (attachments && !attachments.has(annotation.parentKey || "")) {
+        return false;
+      }
+      if (keys && !keys.has(annotation.key)) return false;
+      return true;
+    };
+  }
+}
+
+/**
+ * Hex color for a hex value or color legend label.
+ */
+function resolveColor(color: string, legend: Record<string, string>): string {
+  const value = color.trim().toLowerCase();
+  if (value.startsWith("#")) return value;
+  const match = Object.entries(legend).find(
+    ([, label]) => label.toLowerCase() === value,
+  );
+  return match ? match[0] : value;
+}
+
+function inRange(page: number, range: PageRange): boolean {
+  return page >= range.from && page <= range.to;
+}
+
+/**
+ * Author of an annotation: the name stored on imported annotations, or the
+ * group member who created it.
+ */
+function authorName(annotation: ZoteroAnnotation): string {
+  const { annotationAuthorName, createdByUserID } =
+    annotation as unknown as AnnotationAuthor;
+  if (annotationAuthorName) return annotationAuthorName;
+  if (!createdByUserID) return "";
+  return (
+    (
+      Zotero as unknown as { Users: { getName: (id: number) => string } }
+    ).Users.getName(createdByUserID) || ""
+  );
+}
@@ -1,16 +1,27 @@
 /**
  * Formats Zotero annotations as org-mode blocks.
  *
- * Annotation type mapping:
+ * Output is rendered from a TemplateSet (see defaultTemplates.ts).
+ * Annotation type mapping in the built-in templates:
  * - highlight, underline → #+begin_quote / #+end_quote
  * - note → #+begin_comment / #+end_comment
- * - image, ink → #+begin_example with placeholder
+ * - image, ink → [[file:attachments/KEY.png]] when the image was exported,
+ *   otherwise #+begin_example with placeholder
  *
- * Links use Zotero protocols:
- * - PDF: [[zotero://open-pdf/library/items/KEY?page=N&annotation=ANNOT_KEY][Page N]]:
- * - EPUB: [[zotero://open-epub/library/items/KEY?annotation=ANNOT_KEY][Location]]:
+ * Links back to Zotero (see zoteroLinks.ts), e.g.
+ * [[zotero://open-pdf/library/items/KEY?page=N&annotation=ANNOT_KEY][Page N]]:
+ *
+ * With citations on, quotes end in an org-cite citation, e.g.
+ * [cite:@smith2020, p. 12]
  */
 
+import { AnnotationLocation } from "./annotationLocation";
+import { ColorLegend } from "./colorLegend";
+import { ORG_DEFAULT_TEMPLATES, TemplateSet } from "./defaultTemplates";
+import { NoteConverter } from "./noteConverter";
+import { renderTemplate, TemplateContext } from "./templateEngine";
+import { ZoteroLinks } from "./zoteroLinks";
+
 export interface ZoteroAnnotation {
   annotationType: "highlight" | "underline" | "note" | "image" | "ink";
   annotationText?: string;
@@ -19,203 +30,233 @@ export interface ZoteroAnnotation {
   annotationPosition: string;
   annotationColor?: string;
   annotationSortIndex?: string;
+  dateAdded?: string;
+  dateModified?: string;
   key: string;
+  /** Key of the attachment the annotation belongs to */
+  parentKey?: string;
   getTags(): Array<{ tag: string }>;
 }
 
+/** How annotation tags are rendered: format-native tags, a plain list, or not at all */
+export type TagStyle = "native" | "list" | "none";
+
+/** How the link back to Zotero is rendered: labelled link, bare URL, or omitted */
+export type LinkStyle = "label" | "url" | "none";
+
+export interface FormatOptions {
+  /** Template set to render with (defaults to the format's built-in set) */
+  templates?: TemplateSet;
+  /** Parent item metadata fields, exposed to annotation templates */
+  itemFields?: Record<string, string | undefined>;
+  /** Exported images by annotation key (relative path or data URI) */
+  images?: Map<string, string>;
+  /** Color to label legend, for colorLabel and colorAttr */
+  colorLegend?: Record<string, string>;
+  /** Emit each annotation's color as an attribute */
+  showColor?: boolean;
+  /** Tag rendering (default: native) */
+  tagStyle?: TagStyle;
+  /** Link rendering (default: label) */
+  linkStyle?: LinkStyle;
+  /** Cite the parent item's citekey after each quote */
+  citations?: boolean;
+}
+
+/**
+ * Format-specific renderings passed to buildAnnotationContext.
+ */
+export interface RenderedParts {
+  /** Highlighted text, escaped for the format */
+  text: string;
+  /** Comment converted from Zotero's rich text */
+  comment: string;
+  link: string;
+  zoteroUrl: string;
+  tags: string;
+  /** Link or embed for the annotation's exported image, if any */
+  imageLink: string;
+  /** Color attribute, empty unless showColor is set */
+  colorAttr: string;
+  /** Citation of the quote, empty unless citations are on */
+  citation: string;
+}
+
 /**
- * Generate Zotero link for an annotation in org-mode format.
- * Supports both PDF and EPUB attachments.
+ * Citekey and page locator for an annotation's citation, e.g. "p. 12".
+ * Null when citations are off or the parent item has no citekey.
  */
-function generateZoteroOrgLink(
-  attachmentKey: string,
-  libraryID: number,
+export function citationParts(
   annotation: ZoteroAnnotation,
   contentType: string,
-): string {
-  const annotKey = annotation.key;
-  const libraryPath = libraryID === 1 ? "library" : `groups/${libraryID}`;
-
-  if (contentType === "application/epub+zip") {
-    // EPUB: Use location label as-is (may be chapter or EPUBCFI)
-    const location = annotation.annotationPageLabel || "Location";
-    const url = `zotero://open-epub/${libraryPath}/items/${attachmentKey}?annotation=${annotKey}`;
-    return `[[${url}][${location}]]:`;
-  } else {
-    // PDF: Use numeric page
-    const page = parseInt(annotation.annotationPageLabel) || 1;
-    const url = `zotero://open-pdf/${libraryPath}/items/${attachmentKey}?page=${page}&annotation=${annotKey}`;
-    return `[[${url}][Page ${page}]]:`;
-  }
+  options: FormatOptions,
+): { citekey: string; locator: string } | null {
+  const citekey = options.itemFields?.citekey;
+  if (!options.citations || !citekey) return null;
+  const page = AnnotationLocation.page(annotation, contentType);
+  return { citekey, locator: page ? `p. ${page}` : "" };
+}
+
+/**
+ * Build the variables available to annotation templates.
+ * Shared by the org-mode and markdown formatters; only the rendered parts
+ * (links, tags) differ between formats.
+ */
+export function buildAnnotationContext(
+  annotation: ZoteroAnnotation,
+  parts: RenderedParts,
+  options: FormatOptions,
+): TemplateContext {
+  return {
+    ...options.itemFields,
+    ...parts,
+    type: annotation.annotationType,
+    key: annotation.key,
+    image: options.images?.get(annotation.key) || "",
+    page: annotation.annotationPageLabel,
+    color: annotation.annotationColor || "",
+    colorLabel: annotation.annotationColor
+      ? ColorLegend.label(annotation.annotationColor, options.colorLegend)
+      : "",
+    tagList: (annotation.getTags() || []).map((t) => t.tag),
+  };
 }
 
 export class AnnotationFormatter {
   /**
    * Format a single annotation as org-mode text.
-   * Output order: link (with colon), block, optional comment, optional tags.
+   * Output order (built-in templates): link (with colon), block, optional
+   * comment, optional tags.
    */
   static format(
     annotation: ZoteroAnnotation,
     attachmentKey: string,
     libraryID: number,
     contentType: string = "application/pdf",
+    options: FormatOptions = {},
   ): string {
-    const type = annotation.annotationType;
-
-    switch (type) {
+    const templates = options.templates ?? ORG_DEFAULT_TEMPLATES;
+    const { url, label } = ZoteroLinks.annotation(
+      attachmentKey,
+      libraryID,
+      annotation,
+      contentType,
+    );
+    const link = this.formatLink(url, label, options.linkStyle);
+    const text = NoteConverter.escapeOrg(
+      (annotation.annotationText || "").trim(),
+    );
+    const comment = NoteConverter.commentToOrg(
+      annotation.annotationComment || "",
+    );
+    const image = options.images?.get(annotation.key);
+    const context = buildAnnotationContext(
+      annotation,
+      {
+        text,
+        comment,
+        link,
+        zoteroUrl: url,
+        tags: this.formatTags(annotation, options.tagStyle),
+        imageLink: image ? this.formatImageLink(image) : "",
+        colorAttr: this.formatColorAttr(annotation, options),
+        citation: this.formatCitation(annotation, contentType, options),
+      },
+      options,
+    );
+
+    switch (annotation.annotationType) {
       case "highlight":
+        return renderTemplate(templates.highlight, context);
       case "underline":
-        return this.formatHighlight(annotation, attachmentKey, libraryID, contentType);
+        return renderTemplate(templates.underline ?? templates.highlight, context);
       case "note":
-        return this.formatNote(annotation, attachmentKey, libraryID, contentType);
+        return renderTemplate(templates.note, context);
       case "image":
-        return this.formatImage(annotation, attachmentKey, libraryID, contentType);
+        return renderTemplate(templates.image, context);
       case "ink":
-        return this.formatInk(annotation, attachmentKey, libraryID, contentType);
+        return renderTemplate(templates.ink, context);
       default:
-        return this.formatGeneric(annotation, attachmentKey, libraryID, contentType);
+        return this.formatGeneric(text || comment, link);
     }
   }
 
-  private static formatHighlight(
-    annot: ZoteroAnnotation,
-    attachmentKey: string,
-    libraryID: number,
-    contentType: string,
-  ): string {
-    const link = generateZoteroOrgLink(attachmentKey, libraryID, annot, contentType);
-    const text = annot.annotationText || "";
-    const comment = annot.annotationComment;
-    const tags = this.formatTags(annot);
-
-    let output = "";
-
-    // Link first (above the block)
-    output += link + "\n";
-
-    // Quote block for highlighted/underlined text
-    output += "#+begin_quote\n";
-    output += text.trim() + "\n";
-    output += "#+end_quote\n";
-
-    // Comment as separate paragraph (below block)
-    if (comment && comment.trim()) {
-      output += "\n" + comment.trim() + "\n";
-    }
-
-    // Tags on their own line
-    if (tags) {
-      output += tags + "\n";
-    }
-
-    return output;
+  private static formatGeneric(text: string, link: string): string {
+    return `${link ? link + "\n" : ""}${text}\n`;
   }
 
-  private static formatNote(
-    annot: ZoteroAnnotation,
-    attachmentKey: string,
-    libraryID: number,
-    contentType: string,
+  /**
+   * Org link back to the annotation, e.g. [[zotero://...][Page 3]]:
+   */
+  private static formatLink(
+    url: string,
+    label: string,
+    style: LinkStyle = "label",
   ): string {
-    const link = generateZoteroOrgLink(attachmentKey, libraryID, annot, contentType);
-    const comment = annot.annotationComment || "";
-    const tags = this.formatTags(annot);
-
-    let output = "";
-
-    // Link first
-    output += link + "\n";
-
-    // Comment block for standalone notes
-    output += "#+begin_comment\n";
-    output += comment.trim() + "\n";
-    output += "#+end_comment\n";
-
-    if (tags) {
-      output += tags + "\n";
+    switch (style) {
+      case "none":
+        return "";
+      case "url":
+        return `[[${url}]]:`;
+      default:
+        return `[[${url}][${label}]]:`;
     }
-
-    return output;
   }
 
-  private static formatImage(
-    annot: ZoteroAnnotation,
-    attachmentKey: string,
-    libraryID: number,
+  /**
+   * org-cite citation, e.g. [cite:@smith2020, p. 12]
+   */
+  private static formatCitation(
+    annotation: ZoteroAnnotation,
     contentType: string,
+    options: FormatOptions,
   ): string {
-    const link = generateZoteroOrgLink(attachmentKey, libraryID, annot, contentType);
-    const comment = annot.annotationComment;
-    const location = annot.annotationPageLabel;
-    const tags = this.formatTags(annot);
-
-    let output = "";
-
-    output += link + "\n";
-    output += "#+begin_example\n";
-    output += `[Image annotation at ${location}]\n`;
-    output += "#+end_example\n";
-
-    if (comment && comment.trim()) {
-      output += "\n" + comment.trim() + "\n";
-    }
-
-    if (tags) {
-      output += tags + "\n";
-    }
+    const parts = citationParts(annotation, contentType, options);
+    if (!parts) return "";
+    const locator = parts.locator ? `, ${parts.locator}` : "";
+    return `[cite:@${parts.citekey}${locator}]`;
+  }
 
-    return output;
+  /**
+   * Org link to an exported image: file links for paths, plain links for
+   * data URIs.
+   */
+  private static formatImageLink(image: string): string {
+    return image.startsWith("data:") ? `[[${image}]]` : `[[file:${image}]]`;
   }
 
-  private static formatInk(
+  /**
+   * Affiliated keyword carrying the annotation color, e.g.
+   * #+attr_zotero: :color #ffd400 :label Claim
+   */
+  private static formatColorAttr(
     annot: ZoteroAnnotation,
-    attachmentKey: string,
-    libraryID: number,
-    contentType: string,
+    options: FormatOptions,
   ): string {
-    const link = generateZoteroOrgLink(attachmentKey, libraryID, annot, contentType);
-    const comment = annot.annotationComment;
-    const location = annot.annotationPageLabel;
-    const tags = this.formatTags(annot);
-
-    let output = "";
-
-    output += link + "\n";
-    output += "#+begin_example\n";
-    output += `[Ink/drawing annotation at ${location}]\n`;
-    output += "#+end_example\n";
-
-    if (comment && comment.trim()) {
-      output += "\n" + comment.trim() + "\n";
-    }
-
-    if (tags) {
-      output += tags + "\n";
-    }
-
-    return output;
+    if (!options.showColor || !annot.annotationColor) return "";
+    const label = ColorLegend.label(annot.annotationColor, options.colorLegend);
+    return `#+attr_zotero: :color ${annot.annotationColor} :label ${label}`;
   }
 
-  private static formatGeneric(
+  private static formatTags(
     annot: ZoteroAnnotation,
-    attachmentKey: string,
-    libraryID: number,
-    contentType: string,
+    style: TagStyle = "native",
   ): string {
-    const link = generateZoteroOrgLink(attachmentKey, libraryID, annot, contentType);
-    const text = annot.annotationText || annot.annotationComment || "";
-
-    return `${link}\n${text.trim()}\n`;
-  }
-
-  private static formatTags(annot: ZoteroAnnotation): string {
     const tags = annot.getTags();
-    if (!tags || tags.length === 0) return "";
+    if (style === "none" || !tags || tags.length === 0) return "";
+    if (style === "list") {
+      return `Tags: ${tags.map((t) => t.tag).join(", ")}`;
+    }
 
     // Org-mode tag format: :tag1:tag2:tag3:
-    const tagStr = tags
-      .map((t) => t.tag.replace(/\s+/g, "_").replace(/:/g, "-"))
-      .join(":");
-    return `:${tagStr}:`;
+    return `:${tags.map((t) => this.tagName(t.tag)).join(":")}:`;
+  }
+
+  /**
+   * A Zotero tag as an org tag: spaces become underscores and colons
+   * dashes.
+   */
+  static tagName(tag: string): string {
+    return tag.replace(/\s+/g, "_").replace(/:/g, "-");
   }
 }
@@ -0,0 +1,139 @@
+/**
+ * Resolves image and ink annotations to exportable images.
+ *
+ * Zotero keeps a rendered PNG of image annotations in its cache; missing
+ * images are rendered through the PDF worker. Each image is then either:
+ * - copied into an "attachments" folder next to the exported file, and
+ *   referenced by relative path, or
+ * - inlined as a base64 data URI (clipboard and API exports).
+ */
+
+import { ZoteroAnnotation } from "./annotationFormatter";
+
+/** Folder created next to exported files to hold annotation images */
+export const IMAGE_FOLDER = "attachments";
+
+const IMAGE_TYPES = ["image", "ink"];
+
+export interface ImageResolveOptions {
+  /** Path of the exported file; images are written next to it */
+  outputPath?: string;
+  /** Embed images as data URIs instead of writing files */
+  inline?: boolean;
+}
+
+// Type for Zotero's annotation image cache and PDF worker
+interface ZoteroImageAPI {
+  Annotations: {
+    hasCacheImage: (item: {
+      libraryID: number;
+      key: string;
+    }) => Promise<boolean>;
+    getCacheImagePath: (item: { libraryID: number; key: string }) => string;
+  };
+  PDFWorker: {
+    renderAttachmentAnnotations: (attachmentID: number) => Promise<number>;
+  };
+}
+
+export class AnnotationImages {
+  /**
+   * Whether an annotation is rendered as an image.
+   */
+  static isImageAnnotation(annotation: ZoteroAnnotation): boolean {
+    return IMAGE_TYPES.includes(annotation.annotationType);
+  }
+
+  /**
+   * Resolve images for an attachment's image and ink annotations.
+   * Returns a map of annotation key to relative path or data URI; annotations
+   * whose image cannot be produced are left out (formatters fall back to a
+   * placeholder).
+   */
+  static async resolve(
+    attachment: Zotero.Item,
+    annotations: ZoteroAnnotation[],
+    options: ImageResolveOptions,
+  ): Promise<Map<string, string>> {
+    const images = new Map<string, string>();
+    const imageAnnotations = annotations.filter((a) =>
+      this.isImageAnnotation(a),
+    );
+
+    if (
+      imageAnnotations.length === 0 ||
+      (!options.outputPath && !options.inline)
+    ) {
+      return images;
+    }
+
+    const api = Zotero as unknown as ZoteroImageAPI;
+    const refs = imageAnnotations.map((a) => ({
+      libraryID: attachment.libraryID,
+      key: a.key,
+    }));
+
+    // Render any images missing from the cache (one pass per attachment)
+    try {
+      const cached = await Promise.all(
+        refs.map((ref) => api.Annotations.hasCacheImage(ref)),
+      );
+      if (cached.includes(false)) {
+        await api.PDFWorker.renderAttachmentAnnotations(attachment.id);
+      }
+    } catch (e) {
+      ztoolkit.log("Error rendering annotation images:", e);
+    }
+
+    for (const ref of refs) {
+      try {
+        const cachePath = api.Annotations.getCacheImagePath(ref);
+        if (!(await IOUtils.exists(cachePath))) continue;
+
+        const image = options.outputPath
+          ? await this.copyToFolder(cachePath, ref.key, options.outputPath)
+          : await this.toDataURI(cachePath);
+        images.set(ref.key, image);
+      } catch (e) {
+        ztoolkit.log("Error exporting annotation image:", ref.key, e);
+      }
+    }
+
+    return images;
+  }
+
+  /**
+   * Copy a cached image next to the exported file.
+   * Returns the path relative to the exported file.
+   */
+  private static async copyToFolder(
+    cachePath: string,
+    annotationKey: string,
+    outputPath: string,
+  ): Promise<string> {
+    const folder = PathUtils.join(
+      PathUtils.parent(outputPath) || "",
+      IMAGE_FOLDER,
+    );
+    await IOUtils.makeDirectory(folder, { ignoreExisting: true });
+
+    const filename = `${annotationKey}.png`;
+    await IOUtils.copy(cachePath, PathUtils.join(folder, filename));
+    return `${IMAGE_FOLDER}/${filename}`;
+  }
+
+  /**
+   * Read a cached image as a base64 data URI.
+   */
+  private static async toDataURI(cachePath: string): Promise<string> {
+    const bytes = await IOUtils.read(cachePath);
+
+    // Build the binary string in chunks to stay under argument limits
+    let binary = "";
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return `data:image/png;base64,${btoa(binary)}`;
+  }
+}
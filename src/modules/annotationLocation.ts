@@ -0,0 +1,148 @@
+/**
+ * Where an annotation is in its attachment, for ordering and links, and
+ * which attachments can hold annotations (those the Zotero reader opens:
+ * PDF, EPUB and HTML snapshots).
+ *
+ * Page labels are display text ("xii", "S3", "A-4") and are not used for
+ * arithmetic. Ordering uses Zotero's annotationSortIndex, which is
+ * zero-padded and compares as a string:
+ * - PDF: "PPPPP|OOOOOO|TTTTT" (page index | text offset | top)
+ * - EPUB: "SSSSS|CCCCCCCC" (spine index | character offset)
+ * - Snapshot: "NNNNNNNN" (character offset)
+ * PDF positions carry the 0-based pageIndex; EPUB positions carry an EPUB
+ * CFI ({"type": "FragmentSelector", "value": "epubcfi(...)"}); snapshot
+ * positions carry a CSS selector.
+ */
+
+import { ZoteroAnnotation } from "./annotationFormatter";
+
+export const PDF_CONTENT_TYPE = "application/pdf";
+export const EPUB_CONTENT_TYPE = "application/epub+zip";
+export const SNAPSHOT_CONTENT_TYPE = "text/html";
+
+/** Attachment content types that can be annotated in the Zotero reader */
+export const READER_CONTENT_TYPES = [
+  PDF_CONTENT_TYPE,
+  EPUB_CONTENT_TYPE,
+  SNAPSHOT_CONTENT_TYPE,
+];
+
+/**
+ * Whether an item is an attachment that can hold annotations.
+ */
+export function isReaderAttachment(item: Zotero.Item): boolean {
+  return (
+    item.isAttachment() &&
+    READER_CONTENT_TYPES.includes(item.attachmentContentType)
+  );
+}
+
+function parsePosition(annotation: ZoteroAnnotation): {
+  pageIndex?: unknown;
+  rects?: unknown;
+  type?: unknown;
+  value?: unknown;
+} | null {
+  try {
+    const position = JSON.parse(annotation.annotationPosition);
+    return position && typeof position === "object" ? position : null;
+  } catch {
+    return null;
+  }
+}
+
+export class AnnotationLocation {
+  /**
+   * 0-based page index of a PDF annotation, or null (EPUB, invalid position).
+   */
+  static pageIndex(annotation: ZoteroAnnotation): number | null {
+    const pageIndex = parsePosition(annotation)?.pageIndex;
+    return typeof pageIndex === "number" && pageIndex >= 0 ? pageIndex : null;
+  }
+
+  /**
+   * Top edge of a PDF annotation in PDF points (y grows upwards), or null
+   * (ink, EPUB).
+   */
+  static top(annotation: ZoteroAnnotation): number | null {
+    const rects = parsePosition(annotation)?.rects;
+    if (!Array.isArray(rects)) return null;
+    const tops = rects
+      .map((rect) => (Array.isArray(rect) ? rect[3] : null))
+      .filter((y): y is number => typeof y === "number");
+    return tops.length > 0 ? Math.max(...tops) : null;
+  }
+
+  /**
+   * Spine index of an EPUB annotation, from its sort index, or null.
+   */
+  static spineIndex(annotation: ZoteroAnnotation): number | null {
+    const match = /^(\d{5})\|\d+$/.exec(annotation.annotationSortIndex || "");
+    return match ? parseInt(match[1]) : null;
+  }
+
+  /**
+   * EPUB CFI of an EPUB annotation, or null.
+   */
+  static epubCFI(annotation: ZoteroAnnotation): string | null {
+    const position = parsePosition(annotation);
+    return position?.type === "FragmentSelector" &&
+      typeof position.value === "string"
+      ? position.value
+      : null;
+  }
+
+  /**
+   * Text for links and headings: "Page <label>" for PDFs (the label as
+   * printed, falling back to the page number), the page label or
+   * "Location" for EPUBs and snapshots. CFIs are never shown.
+   */
+  static label(annotation: ZoteroAnnotation, contentType: string): string {
+    const page = this.page(annotation, contentType);
+    if (contentType !== PDF_CONTENT_TYPE) return page ?? "Location";
+    return page === null ? "Page" : `Page ${page}`;
+  }
+
+  /**
+   * Page as printed, for citations: the page label, or the page number of
+   * a PDF without labels. Null if unknown (CFIs are not pages).
+   */
+  static page(
+    annotation: ZoteroAnnotation,
+    contentType: string,
+  ): string | null {
+    const pageLabel = (annotation.annotationPageLabel || "").trim();
+    if (pageLabel && !pageLabel.startsWith("epubcfi(")) return pageLabel;
+    const pageIndex =
+      contentType === PDF_CONTENT_TYPE ? this.pageIndex(annotation) : null;
+    return pageIndex === null ? null : String(pageIndex + 1);
+  }
+
+  /**
+   * Page number to match against page ranges: the label if it is a
+   * number, otherwise the physical page. NaN if neither is known.
+   */
+  static pageNumber(annotation: ZoteroAnnotation): number {
+    const label = (annotation.annotationPageLabel || "").trim();
+    if (/^\d+$/.test(label)) return parseInt(label);
+    const pageIndex = this.pageIndex(annotation);
+    return pageIndex === null ? NaN : pageIndex + 1;
+  }
+
+  /**
+   * Document order: by sort index, then by page index for annotations
+   * without one. Annotations with no location go last.
+   */
+  static compare(a: ZoteroAnnotation, b: ZoteroAnnotation): number {
+    if (a.annotationSortIndex && b.annotationSortIndex) {
+      return a.annotationSortIndex < b.annotationSortIndex
+        ? -1
+        : a.annotationSortIndex > b.annotationSortIndex
+          ? 1
+          : 0;
+    }
+    const pageA = AnnotationLocation.pageIndex(a) ?? Infinity;
+    const pageB = AnnotationLocation.pageIndex(b) ?? Infinity;
+    return pageA === pageB ? 0 : pageA < pageB ? -1 : 1;
+  }
+}
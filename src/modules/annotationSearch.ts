@@ -0,0 +1,168 @@
+/**
+ * Full-text search of annotations, for the /export-org/search endpoint.
+ *
+ * A query matches annotation text, comments (as plain text, without their
+ * formatting) and tags. Plain queries match as a phrase, ignoring case and
+ * runs of whitespace; regex queries are JavaScript regular expressions,
+ * also case-insensitive. Matches are narrowed further with an annotation
+ * filter (tags, colors, ...), see annotationFilter.ts.
+ */
+
+import { AnnotationFilter } from "./annotationFilter";
+import { ZoteroAnnotation } from "./annotationFormatter";
+import { isReaderAttachment } from "./annotationLocation";
+import { Exporter } from "./exporter";
+import { parseHtml, textContent } from "./noteConverter";
+
+export const SEARCH_FIELDS = ["text", "comment", "tags"] as const;
+
+export type SearchField = (typeof SEARCH_FIELDS)[number];
+
+export interface SearchQuery {
+  /** The query as given */
+  query: string;
+  regex: boolean;
+  /** Fields to search (default: all) */
+  fields: SearchField[];
+}
+
+/** Matching annotations, by the item they would be exported with */
+export interface SearchResult {
+  /** Regular items, or standalone attachments, in library order */
+  items: Zotero.Item[];
+  /** Keys of the matching annotations, up to the limit */
+  keys: string[];
+  /** All matches, including those over the limit */
+  totalMatches: number;
+}
+
+// Type for Zotero.Libraries (not fully typed)
+interface ZoteroLibraryList {
+  Libraries: {
+    getAll: () => Array<{ libraryID: number; libraryType: string }>;
+  };
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+export class AnnotationSearch {
+  /**
+   * Validate a query from a request body ("query", "regex", "fields").
+   * Returns the query, or an error message.
+   */
+  static parse(body: Record<string, unknown>): {
+    query?: SearchQuery;
+    error?: string;
+  } {
+    const { query, regex, fields } = body;
+    if (typeof query !== "string" || !query.trim()) {
+      return { error: "Missing 'query' parameter" };
+    }
+    if (regex !== undefined && typeof regex !== "boolean") {
+      return { error: "'regex' must be a boolean" };
+    }
+    if (regex) {
+      try {
+        new RegExp(query);
+      } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        return { error: `Invalid regular expression: ${message}` };
+      }
+    }
+
+    let searchFields: SearchField[] = [...SEARCH_FIELDS];
+    if (fields !== undefined) {
+      if (
+        !Array.isArray(fields) ||
+        fields.length === 0 ||
+        !fields.every((f) => SEARCH_FIELDS.includes(f as SearchField))
+      ) {
+        return {
+          error: `'fields' must be a list of: ${SEARCH_FIELDS.join(", ")}`,
+        };
+      }
+      searchFields = fields as SearchField[];
+    }
+
+    return { query: { query, regex: Boolean(regex), fields: searchFields } };
+  }
+
+  /**
+   * Build a predicate for a query.
+   */
+  static matcher(
+    query: SearchQuery,
+  ): (annotation: ZoteroAnnotation) => boolean {
+    const pattern = query.regex ? new RegExp(query.query, "i") : null;
+    const phrase = normalize(query.query);
+    const test = (text: string) =>
+      pattern ? pattern.test(text) : normalize(text).includes(phrase);
+
+    return (annotation) =>
+      query.fields.some((field) => {
+        switch (field) {
+          case "text":
+            return test(annotation.annotationText || "");
+          case "comment":
+            return test(
+              textContent(parseHtml(annotation.annotationComment || "")),
+            );
+          case "tags":
+            return (annotation.getTags() || []).some((t) => test(t.tag));
+        }
+      });
+  }
+
+  /**
+   * Find annotations matching a query and filter in one library, or in all
+   * user and group libraries. Keys stop at the limit; totalMatches counts
+   * on.
+   */
+  static async find(
+    query: SearchQuery,
+    options: {
+      libraryID?: number;
+      filter?: AnnotationFilter;
+      limit?: number;
+    } = {},
+  ): Promise<SearchResult> {
+    const matches = this.matcher(query);
+    const limit = options.limit ?? Infinity;
+    const result: SearchResult = { items: [], keys: [], totalMatches: 0 };
+    const seen = new Set<number>();
+
+    for (const libraryID of this.libraryIDs(options.libraryID)) {
+      const attachments = (await Zotero.Items.getAll(libraryID)).filter(
+        (item) => isReaderAttachment(item),
+      );
+      for (const { attachment, annotations } of Exporter.collectAnnotations(
+        attachments,
+        options.filter,
+      )) {
+        for (const annotation of annotations.filter(matches)) {
+          result.totalMatches++;
+          if (result.keys.length >= limit) continue;
+          result.keys.push(annotation.key);
+
+          const item = (await Exporter.getParentItem(attachment)) || attachment;
+          if (!seen.has(item.id)) {
+            seen.add(item.id);
+            result.items.push(item);
+          }
+        }
+      }
+    }
+    return result;
+  }
+
+  private static libraryIDs(libraryID: number | undefined): number[] {
+    if (libraryID !== undefined) return [libraryID];
+    const libraries = (Zotero as unknown as ZoteroLibraryList).Libraries;
+    return libraries
+      .getAll()
+      .filter(({ libraryType }) => ["user", "group"].includes(libraryType))
+      .map(({ libraryID }) => libraryID);
+  }
+}
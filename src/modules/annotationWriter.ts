@@ -0,0 +1,308 @@
+/**
+ * Changes to Zotero annotations from API clients: editing an annotation's
+ * comment, tags and color, and adding note annotations to PDF pages.
+ *
+ * Only annotations the Zotero reader would let the user edit can be
+ * changed: the library must be editable, annotations imported from the
+ * file are read-only, and in group libraries members can only edit their
+ * own annotations.
+ */
+
+import { ZoteroAnnotation } from "./annotationFormatter";
+import { PDF_CONTENT_TYPE } from "./annotationLocation";
+import { ColorLegend } from "./colorLegend";
+
+/** Fields of an annotation that can be edited */
+export interface AnnotationChanges {
+  comment?: string;
+  /** Replaces all tags of the annotation */
+  tags?: string[];
+  /** Hex color */
+  color?: string;
+}
+
+/** A note annotation to add to a PDF page */
+export interface NoteAnnotation {
+  /** 1-based physical page */
+  page: number;
+  /** Printed page label, the page number if not given */
+  pageLabel?: string;
+  comment: string;
+  color: string;
+  tags: string[];
+}
+
+/** Color of new note annotations, Zotero's default yellow */
+export const DEFAULT_NOTE_COLOR = "#ffd400";
+
+/** Size of Zotero's note annotation icon, in PDF points */
+const NOTE_SIZE = 22;
+
+/**
+ * Note annotations are placed near the bottom left corner of the page,
+ * which is on the page whatever its size
+ */
+const NOTE_LEFT = 20;
+const NOTE_BOTTOM = 20;
+
+// Type for Zotero.Libraries / Zotero.Users / Zotero.Item / Zotero.PDFWorker
+// (not fully typed)
+interface ZoteroWriteApi {
+  Libraries: {
+    get: (id: number) => { libraryType: string; editable: boolean } | false;
+  };
+  Users: {
+    getCurrentUserID: () => number | null;
+  };
+  Item: new (itemType: string) => WritableAnnotation;
+  PDFWorker: {
+    getFullText: (
+      itemID: number,
+      maxPages: number,
+      isPriority?: boolean,
+    ) => Promise<{ totalPages: number }>;
+  };
+}
+
+// Annotation fields set here, beyond ZoteroAnnotation
+interface WritableAnnotation extends ZoteroAnnotation {
+  libraryID: number;
+  parentID: number | false;
+  annotationIsExternal?: boolean;
+  createdByUserID?: number | null;
+  setTags(tags: string[]): void;
+  saveTx(): Promise<unknown>;
+}
+
+/**
+ * Hex color for a hex value or color legend label, null if it is neither.
+ */
+function parseColor(
+  value: string,
+  legend: Record<string, string>,
+): string | null {
+  const color = value.trim().toLowerCase();
+  if (/^#[0-9a-f]{6}$/.test(color)) return color;
+  const match = Object.entries(legend).find(
+    ([, label]) => label.toLowerCase() === color,
+  );
+  return match ? match[0] : null;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+export class AnnotationWriter {
+  /**
+   * Validate annotation changes from a request body ("comment", "tags",
+   * "color"). Returns the changes, or an error message.
+   */
+  static parseChanges(
+    body: Record<string, unknown>,
+    legend: Record<string, string> = ColorLegend.get(),
+  ): { changes?: AnnotationChanges; error?: string } {
+    const changes: AnnotationChanges = {};
+
+    if (body.comment !== undefined) {
+      if (typeof body.comment !== "string") {
+        return { error: "'comment' must be a string" };
+      }
+      changes.comment = body.comment;
+    }
+
+    if (body.tags !== undefined) {
+      if (!isStringList(body.tags)) {
+        return { error: "'tags' must be an array of strings" };
+      }
+      changes.tags = this.cleanTags(body.tags);
+    }
+
+    if (body.color !== undefined) {
+      const color =
+        typeof body.color === "string" ? parseColor(body.color, legend) : null;
+      if (!color) {
+        return { error: `Invalid color: ${String(body.color)}` };
+      }
+      changes.color = color;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return { error: "Nothing to change: give 'comment', 'tags' or 'color'" };
+    }
+    return { changes };
+  }
+
+  /**
+   * Validate a note annotation from a request body ("page", "pageLabel",
+   * "comment", "color", "tags"). Returns the note, or an error message.
+   */
+  static parseNote(
+    body: Record<string, unknown>,
+    legend: Record<string, string> = ColorLegend.get(),
+  ): { note?: NoteAnnotation; error?: string } {
+    const { page, pageLabel, comment, color, tags } = body;
+
+    if (typeof page !== "number" || !Number.isInteger(page) || page < 1) {
+      return { error: "'page' must be a page number starting at 1" };
+    }
+    if (pageLabel !== undefined && typeof pageLabel !== "string") {
+      return { error: "'pageLabel' must be a string" };
+    }
+    if (typeof comment !== "string" || !comment.trim()) {
+      return { error: "Missing 'comment' parameter" };
+    }
+    if (tags !== undefined && !isStringList(tags)) {
+      return { error: "'tags' must be an array of strings" };
+    }
+
+    let hex = DEFAULT_NOTE_COLOR;
+    if (color !== undefined) {
+      const parsed =
+        typeof color === "string" ? parseColor(color, legend) : null;
+      if (!parsed) return { error: `Invalid color: ${String(color)}` };
+      hex = parsed;
+    }
+
+    return {
+      note: {
+        page,
+        pageLabel: pageLabel?.trim() || undefined,
+        comment,
+        color: hex,
+        tags: this.cleanTags(tags ?? []),
+      },
+    };
+  }
+
+  /**
+   * Why an annotation, or an attachment to add annotations to, cannot be
+   * changed; null if it can.
+   */
+  static readOnlyReason(item: Zotero.Item): string | null {
+    const zotero = Zotero as unknown as ZoteroWriteApi;
+    const library = zotero.Libraries.get(item.libraryID);
+    if (!library || !library.editable) {
+      return `Library ${item.libraryID} is read-only`;
+    }
+    if (!item.isAnnotation()) return null;
+
+    const annotation = item as unknown as WritableAnnotation;
+    if (annotation.annotationIsExternal) {
+      return `Annotation ${item.key} is stored in the PDF file and cannot be edited`;
+    }
+    const author = annotation.createdByUserID;
+    if (
+      library.libraryType === "group" &&
+      author &&
+      author !== zotero.Users.getCurrentUserID()
+    ) {
+      return `Annotation ${item.key} was created by another group member`;
+    }
+    return null;
+  }
+
+  /**
+   * Apply changes to an annotation and save it. Check readOnlyReason()
+   * first.
+   */
+  static async update(
+    item: Zotero.Item,
+    changes: AnnotationChanges,
+  ): Promise<void> {
+    const annotation = item as unknown as WritableAnnotation;
+    if (changes.comment !== undefined) {
+      annotation.annotationComment = changes.comment;
+    }
+    if (changes.color !== undefined) {
+      annotation.annotationColor = changes.color;
+    }
+    if (changes.tags !== undefined) {
+      annotation.setTags(changes.tags);
+    }
+    await annotation.saveTx();
+  }
+
+  /**
+   * Why a note cannot be added to a PDF attachment's page, null if it can.
+   * Pages are only checked when Zotero's PDF worker can count them.
+   */
+  static async pageError(
+    attachment: Zotero.Item,
+    note: NoteAnnotation,
+  ): Promise<string | null> {
+    let pageCount: number;
+    try {
+      const zotero = Zotero as unknown as ZoteroWriteApi;
+      ({ totalPages: pageCount } = await zotero.PDFWorker.getFullText(
+        attachment.id,
+        1,
+        true,
+      ));
+    } catch (e) {
+      ztoolkit.log("Could not count PDF pages:", attachment.key, e);
+      return null;
+    }
+    if (note.page <= pageCount) return null;
+    return `Page ${note.page} is past the end of the PDF (${pageCount} pages)`;
+  }
+
+  /**
+   * Add a note annotation to a PDF attachment and return it. Check
+   * readOnlyReason() on the attachment and pageError() on the note first.
+   */
+  static async addNote(
+    attachment: Zotero.Item,
+    note: NoteAnnotation,
+  ): Promise<Zotero.Item> {
+    if (attachment.attachmentContentType !== PDF_CONTENT_TYPE) {
+      throw new Error("Note annotations can only be added to PDF attachments");
+    }
+
+    const zotero = Zotero as unknown as ZoteroWriteApi;
+    const annotation = new zotero.Item("annotation");
+    annotation.libraryID = attachment.libraryID;
+    annotation.parentID = attachment.id;
+    annotation.annotationType = "note";
+    annotation.annotationComment = note.comment;
+    annotation.annotationColor = note.color;
+    annotation.annotationPageLabel = note.pageLabel ?? String(note.page);
+    annotation.annotationPosition = JSON.stringify(this.notePosition(note));
+    annotation.annotationSortIndex = this.noteSortIndex(note);
+    if (note.tags.length > 0) annotation.setTags(note.tags);
+    await annotation.saveTx();
+    return annotation as unknown as Zotero.Item;
+  }
+
+  /** PDF position of a new note annotation */
+  static notePosition(note: NoteAnnotation): {
+    pageIndex: number;
+    rects: number[][];
+  } {
+    return {
+      pageIndex: note.page - 1,
+      rects: [
+        [
+          NOTE_LEFT,
+          NOTE_BOTTOM,
+          NOTE_LEFT + NOTE_SIZE,
+          NOTE_BOTTOM + NOTE_SIZE,
+        ],
+      ],
+    };
+  }
+
+  /**
+   * Sort index of a new note annotation (page|offset|top): last of the
+   * notes on its page, as it is placed at the bottom and the page height
+   * is not known here.
+   */
+  static noteSortIndex(note: NoteAnnotation): string {
+    return `${String(note.page - 1).padStart(5, "0")}|000000|99999`;
+  }
+
+  /** Trimmed tags without empty ones or duplicates */
+  private static cleanTags(tags: string[]): string[] {
+    return Array.from(new Set(tags.map((t) => t.trim()).filter((t) => t)));
+  }
+}
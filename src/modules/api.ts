@@ -20,7 +20,27 @@
  *   - key (string): Single citation key
  *   - keys (string[]): Array of citation keys for batch export
  *   - libraryID (number, optional): Library ID (default: user library)
- *   - format ("org"|"md", optional): Output format (default: "md")
+ *   - format (string, optional): Registered output format id, or "json" for
+ *     structured data (default: the defaultFormat preference, "md" unless changed)
+ *   - template (string, optional): Name of a user template set (default: built-in)
+ *   - inlineImages (boolean, optional): Embed image/ink annotations as base64
+ *     data URIs (default: true; false emits placeholders instead)
+ *   - groupByColor (boolean, optional): Group annotations under a heading per
+ *     color, labelled from the color legend (default: preference)
+ *   - groupByOutline (boolean, optional): Nest annotations under headings from
+ *     the PDF outline or EPUB table of contents (default: preference)
+ *   - showColor (boolean, optional): Emit each annotation's color as an org
+ *     #+attr_zotero line or Markdown link attribute (default: preference)
+ *   - citations (boolean, optional): End each quote with a citation of the
+ *     item's citekey, [cite:@citekey, p. 12] in org or [@citekey, p. 12] in
+ *     Markdown; items without a citekey get none (default: preference)
+ *   - embedKeys (boolean, optional): Wrap each annotation in key markers so the
+ *     output can later be synced in place (default: preference)
+ *   - includeNotes (boolean, optional): Add the item's child notes, converted
+ *     from HTML, in a "Notes" section (default: preference)
+ *   - filter (object, optional): Only export matching annotations, e.g.
+ *     {"tags": ["important"], "colors": ["#ffd400"], "types": ["highlight"],
+ *     "pages": "1-10, 15", "modifiedSince": "2024-01-31"}. See "## Filters".
  *
  * Response:
  *   {
@@ -68,7 +88,9 @@
  *   }
  *
  * ### 5. POST /export-org/collection - Export annotations from collection
- * Exports all annotations from items in a collection.
+ * Exports all annotations from items in a collection (regular items and
+ * standalone PDF, EPUB and snapshot attachments; items in several
+ * subcollections once).
  *
  * Request:
  *   {
@@ -82,7 +104,27 @@
  *   - collectionKey (string): Collection key
  *   - libraryID (number, optional): Library ID
  *   - recursive (boolean, optional): Include subcollections (default: false)
- *   - format ("org"|"md", optional): Output format (default: "md")
+ *   - format (string, optional): Registered output format id, or "json" for
+ *     structured data (default: the defaultFormat preference, "md" unless changed)
+ *   - template (string, optional): Name of a user template set (default: built-in)
+ *   - inlineImages (boolean, optional): Embed image/ink annotations as base64
+ *     data URIs (default: true; false emits placeholders instead)
+ *   - groupByColor (boolean, optional): Group annotations under a heading per
+ *     color, labelled from the color legend (default: preference)
+ *   - groupByOutline (boolean, optional): Nest annotations under headings from
+ *     the PDF outline or EPUB table of contents (default: preference)
+ *   - showColor (boolean, optional): Emit each annotation's color as an org
+ *     #+attr_zotero line or Markdown link attribute (default: preference)
+ *   - citations (boolean, optional): End each quote with a citation of the
+ *     item's citekey, [cite:@citekey, p. 12] in org or [@citekey, p. 12] in
+ *     Markdown; items without a citekey get none (default: preference)
+ *   - embedKeys (boolean, optional): Wrap each annotation in key markers so the
+ *     output can later be synced in place (default: preference)
+ *   - includeNotes (boolean, optional): Add the item's child notes, converted
+ *     from HTML, in a "Notes" section (default: preference)
+ *   - filter (object, optional): Only export matching annotations, e.g.
+ *     {"tags": ["important"], "colors": ["#ffd400"], "types": ["highlight"],
+ *     "pages": "1-10, 15", "modifiedSince": "2024-01-31"}. See "## Filters".
  *
  * Response:
  *   {
@@ -178,24 +220,275 @@
  *     ]
  *   }
  *
+ * ### 9. POST /export-org/annotation/update - Edit an annotation
+ * Changes the comment, tags and/or color of an annotation.
+ *
+ * Request:
+ *   {"key": "ANNOTKEY", "libraryID": 1, "comment": "Revised", "tags": ["method"]}
+ *
+ * Parameters:
+ *   - key (string): Annotation key
+ *   - libraryID (number, optional): Library ID (default: user library)
+ *   - comment (string, optional): New comment
+ *   - tags (string[], optional): New tags, replacing the existing ones
+ *   - color (string, optional): Hex color or color legend label
+ * At least one of comment, tags and color must be given.
+ *
+ * Response:
+ *   {"success": true, "annotation": {...}}
+ * "annotation" has the fields of annotations in "json" output.
+ *
+ * ### 10. POST /export-org/annotation/create - Add a note annotation
+ * Adds a note annotation near the bottom left corner of a PDF page. Pages
+ * past the end of the PDF are refused (400).
+ *
+ * Request:
+ *   {"attachmentKey": "ATTKEY", "libraryID": 1, "page": 12, "comment": "See ch. 3"}
+ *
+ * Parameters:
+ *   - attachmentKey (string): Key of the PDF attachment
+ *   - libraryID (number, optional): Library ID (default: user library)
+ *   - page (number): Physical page, starting at 1
+ *   - pageLabel (string, optional): Printed page label (default: the page number)
+ *   - comment (string): Note text
+ *   - color (string, optional): Hex color or color legend label
+ *     (default: #ffd400)
+ *   - tags (string[], optional): Tags of the new annotation
+ *
+ * Response:
+ *   {"success": true, "annotation": {...}}
+ *
+ * Annotations can only be changed in editable libraries. As in the Zotero
+ * reader, annotations imported from the PDF file and, in group libraries,
+ * annotations created by other members are read-only (403).
+ *
+ * ### 11. POST /export-org/import - Import edited comments and tags
+ * Reads an org or Markdown document exported with annotation keys (sync
+ * export) and matches each marked annotation block to its annotation by
+ * key. Comments and tags that differ from Zotero are returned as a preview,
+ * and written to Zotero with "apply": true.
+ *
+ * Request:
+ *   {"content": "...document...", "format": "org", "apply": false}
+ *
+ * Parameters:
+ *   - content (string): The exported document, as edited
+ *   - format (string, optional): Format of the document, "org" or "md"
+ *     (default: the defaultFormat preference)
+ *   - libraryID (number, optional): Library of blocks without a link
+ *     (default: user library)
+ *   - apply (boolean, optional): Write the changes (default: false, preview)
+ *
+ * Response:
+ *   {
+ *     "success": true,
+ *     "applied": 0,
+ *     "changes": [{
+ *       "key": "ANNOTKEY", "libraryID": 1, "pageLabel": "12",
+ *       "comment": {"from": "Old", "to": "New"},
+ *       "tags": {"from": ["method"], "to": ["method", "todo"]}
+ *     }],
+ *     "unchanged": 14,
+ *     "missing": ["GONEKEY1"],
+ *     "skipped": [{"key": "OTHERKEY", "error": "..."}],
+ *     "failed": [],
+ *     "diff": "ANNOTKEY (page 12)\n  Comment:\n  - Old\n  + New\n..."
+ *   }
+ * "applied" counts the annotations written; read-only annotations are
+ * listed in "skipped" and left out. Comments are read as the built-in
+ * templates write them, and tags from the last line of a block in the
+ * tagStyle preference (none: tags are not imported). Documents without key
+ * markers, or with blocks whose markers record another template or tag
+ * style, are refused (400) so that nothing else is read as a comment.
+ *
+ * ### 12. POST /export-org/search - Search annotations
+ * Searches annotation text, comments and tags in one library, or in all
+ * user and group libraries, and exports the matching annotations grouped by
+ * item, with title, citekey, page and zotero:// link.
+ *
+ * Request:
+ *   {"query": "working memory", "filter": {"colors": ["Important"]}, "format": "org"}
+ *
+ * Parameters:
+ *   - query (string): Phrase to search for, ignoring case and whitespace
+ *   - regex (boolean, optional): Treat query as a case-insensitive
+ *     JavaScript regular expression (default: false)
+ *   - fields (string[], optional): Any of "text", "comment", "tags"
+ *     (default: all)
+ *   - libraryID (number, optional): Library to search (default: all libraries)
+ *   - limit (number, optional): Maximum number of annotations (default: 100)
+ *   - filter (object, optional): Only search matching annotations, see
+ *     "## Filters"
+ *   - format and the other export options as for /export-org/collection
+ *     (child notes are never included)
+ *
+ * Response:
+ *   {
+ *     "success": true,
+ *     "query": "working memory",
+ *     "totalMatches": 3,
+ *     "truncated": false,
+ *     "itemCount": 2,
+ *     "totalAnnotations": 3,
+ *     "format": "org",
+ *     "content": "...formatted annotations...",
+ *     "items": [{"title": "Paper 1", "annotationCount": 2}, ...]
+ *   }
+ * No matches is not an error: "totalMatches" is 0 and "content" empty (or
+ * "items" empty for "json"). "truncated" is set when more annotations
+ * matched than "limit".
+ *
+ * ### 13. POST /export-org/tag - Export annotations by tag
+ * Exports every annotation with a tag (ignoring case) in a library as one
+ * document, with a heading and metadata per item. Child notes are left out.
+ *
+ * Request:
+ *   {"tag": "method", "libraryID": 1, "format": "org"}
+ *
+ * Parameters:
+ *   - tag (string): Annotation tag
+ *   - libraryID (number, optional): Library ID (default: user library)
+ *   - format and the other export options as for /export-org/collection;
+ *     "filter" narrows the tagged annotations further
+ *
+ * Response:
+ *   {
+ *     "success": true,
+ *     "tag": "method",
+ *     "itemCount": 4,
+ *     "totalAnnotations": 17,
+ *     "format": "org",
+ *     "content": "...formatted annotations...",
+ *     "items": [{"title": "Paper 1", "annotationCount": 5}, ...]
+ *   }
+ *
+ * ### 14. POST /export-org/saved-search - Export annotations from a saved search
+ * Runs a Zotero saved search and exports the annotations of the matching
+ * items as for /export-org/collection. Matching child attachments, notes
+ * and annotations count as their top-level item.
+ *
+ * Request:
+ *   {"searchKey": "SEARCH12", "libraryID": 1, "format": "md"}
+ *
+ * Parameters:
+ *   - searchKey (string): Saved search key
+ *   - searchName (string): Saved search name (ignoring case), instead of
+ *     searchKey
+ *   - libraryID (number, optional): Library ID (default: user library)
+ *   - format and the other export options as for /export-org/collection
+ *
+ * Response:
+ *   {
+ *     "success": true,
+ *     "searchName": "Thesis reading",
+ *     "searchKey": "SEARCH12",
+ *     "itemCount": 6,
+ *     "totalAnnotations": 58,
+ *     "format": "md",
+ *     "content": "...formatted annotations...",
+ *     "items": [{"title": "Paper 1", "annotationCount": 10}, ...]
+ *   }
+ *
  * ## Output Formats
  *
+ * Formats come from the FormatRegistry; missing or unknown ids fall back to
+ * the defaultFormat preference ("md" unless changed).
+ * Built-in formats:
  * - "md" (default): Markdown with blockquotes for highlights, hashtags for tags
  * - "org": Org-mode format with properties drawer, Zotero links
  *
+ * "json" returns structured data instead of rendered text: "item" (single
+ * key) or "items" (batch, collection) holds each item's metadata and an
+ * array of annotations; "content" is omitted and template options are
+ * ignored.
+ *
+ *   {
+ *     "key": "ITEMKEY", "libraryID": 1, "itemType": "journalArticle",
+ *     "citekey": "smith2020", "title": "Paper Title",
+ *     "metadata": {"authors": "...", "date": "...", "doi": "...", ...},
+ *     "annotationCount": 1,
+ *     "annotations": [{
+ *       "key": "ANNOTKEY", "type": "highlight", "text": "...",
+ *       "comment": "...", "color": "#ffd400", "colorLabel": "Yellow",
+ *       "pageLabel": "12", "pageIndex": 11, "epubCFI": null,
+ *       "sortIndex": "00011|001234|00123",
+ *       "position": {"pageIndex": 11, "rects": [...]},
+ *       "tags": ["method"], "dateAdded": "2024-01-01 10:00:00",
+ *       "dateModified": "2024-01-02 10:00:00",
+ *       "attachmentKey": "ATTKEY", "attachmentContentType": "application/pdf",
+ *       "url": "zotero://open-pdf/library/items/ATTKEY?page=12&annotation=ANNOTKEY"
+ *     }]
+ *   }
+ *
+ * Header fields, tag and link style and annotation order follow the plugin
+ * preferences (metadataFields, includeAbstract, tagStyle, linkStyle,
+ * sortOrder).
+ *
+ * ## Filters
+ *
+ * "filter" accepts: tags / allTags / excludeTags (any of / all of / none
+ * of), colors / excludeColors (hex or color legend label), types
+ * (highlight, underline, note, image, ink), pages (ranges of page labels,
+ * "20-" for open-ended), modifiedSince (ISO date/time), authors
+ * (annotation author in group libraries), attachments (attachment keys,
+ * for items with several files) and keys (annotation keys). All given
+ * criteria must match. An invalid filter returns 400.
+ *
+ * Items whose annotations come from several attachments get a sub-heading
+ * per attachment with its annotation count.
+ *
+ * With groupByOutline, annotations are nested under the headings of the
+ * PDF outline (bookmarks) or EPUB table of contents they fall in, e.g.
+ * "*** Chapter 3" in org. Only headings with annotations are emitted, and
+ * EPUB headings are matched by chapter file. Attachments without an
+ * outline are exported as a flat list. JSON output is not affected.
+ *
+ * ## Templates
+ *
+ * Output is rendered from template sets (header, highlight, underline, note,
+ * image, ink). User template sets are stored as JSON in the "templates"
+ * preference (edited in the preferences pane, where invalid sets are not
+ * saved) and selected per request with "template"; sets with errors are
+ * left out and count as unknown. Syntax:
+ *   {{var}}, {{var | yaml}}, {{#if var}}...{{else}}...{{/if}},
+ *   {{#unless var}}...{{/unless}}, {{#each tagList}}{{this}}{{/each}}
+ * Filters: trim, upper, lower, yaml, quote, oneline.
+ *
+ * Header variables: title, authors, date, publication, doi, url, zoteroKey,
+ * citekey, abstract. Annotation templates see the same item variables plus
+ * type, key, link, zoteroUrl, page, text, comment, color, tags, tagList,
+ * citation.
+ *
  * ## Zotero Links
  *
- * Generated links use Zotero protocols:
- * - PDF: zotero://open-pdf/library/items/KEY?page=N&annotation=ANNOT_KEY
- * - EPUB: zotero://open-epub/library/items/KEY?annotation=ANNOT_KEY
+ * Generated links follow the linkTarget preference:
+ * - open (default): zotero://open-pdf/library/items/KEY?page=N&annotation=ANNOT_KEY
+ *   (N is the physical page; link text shows the printed page label)
+ *   or zotero://open-epub/library/items/KEY?annotation=ANNOT_KEY
+ *   or zotero://open/library/items/KEY?annotation=ANNOT_KEY (snapshots)
+ * - select: zotero://select/library/items/KEY
+ * - web: https://www.zotero.org/users/USER_ID/items/KEY
+ * Group libraries use groups/GROUP_ID in place of library.
  *
  * ## Error Responses
  *
  * All endpoints return JSON with "success": false and "error" message on failure.
- * HTTP status codes: 400 (bad request), 404 (not found), 500 (server error)
+ * HTTP status codes: 400 (bad request), 403 (read-only library or annotation),
+ * 404 (not found), 500 (server error)
  */
 
-import { Exporter, ExportFormat } from "./exporter";
+import { AnnotationFilters } from "./annotationFilter";
+import { ZoteroAnnotation } from "./annotationFormatter";
+import { AnnotationSearch } from "./annotationSearch";
+import { AnnotationWriter } from "./annotationWriter";
+import { CollectionTree } from "./collections";
+import { Exporter, ExportFormat, ExportOptions } from "./exporter";
+import { FormatRegistry } from "./formatRegistry";
+import { AnnotationJSON, ItemJSON, JsonExport } from "./jsonExport";
+import { ImportPreview, ImportResult, SyncImport } from "./syncImport";
+import { SavedSearches } from "./savedSearches";
+import { TagItems } from "./tags";
+import { TemplateStore } from "./templates";
 
 // Type declarations for Zotero's server system
 declare const Zotero: {
@@ -204,6 +497,10 @@ declare const Zotero: {
   };
   Items: {
     getAll: (libraryID: number) => Zotero.Item[];
+    getByLibraryAndKeyAsync: (
+      libraryID: number,
+      key: string,
+    ) => Promise<Zotero.Item | false>;
   };
   Libraries: {
     userLibraryID: number;
@@ -224,11 +521,17 @@ interface ApiResponse {
   // Batch response fields
   itemCount?: number;
   totalAnnotations?: number;
-  items?: Array<{
-    citekey?: string;
-    title: string;
-    annotationCount: number;
-  }>;
+  items?:
+    | Array<{
+        citekey?: string;
+        title: string;
+        annotationCount: number;
+      }>
+    | ItemJSON[];
+  // Structured response field (format "json", single item)
+  item?: ItemJSON;
+  // Annotation write-back endpoints
+  annotation?: AnnotationJSON;
 }
 
 /**
@@ -339,6 +642,73 @@ async function findItemByCitekey(citekey: string, libraryID?: number): Promise<Z
   return null;
 }
 
+/**
+ * Parse the export options shared by all export endpoints from a request body.
+ * Omitted options fall back to the user's preferences in the Exporter.
+ */
+function parseExportOptions(dataObj: Record<string, unknown>): ExportOptions {
+  const options: ExportOptions = { inlineImages: true };
+
+  if (typeof dataObj.template === "string") {
+    options.template = dataObj.template;
+  }
+  if (typeof dataObj.inlineImages === "boolean") {
+    options.inlineImages = dataObj.inlineImages;
+  }
+  if (typeof dataObj.groupByColor === "boolean") {
+    options.groupByColor = dataObj.groupByColor;
+  }
+  if (typeof dataObj.groupByOutline === "boolean") {
+    options.groupByOutline = dataObj.groupByOutline;
+  }
+  if (typeof dataObj.showColor === "boolean") {
+    options.showColor = dataObj.showColor;
+  }
+  if (typeof dataObj.citations === "boolean") {
+    options.citations = dataObj.citations;
+  }
+  if (typeof dataObj.embedKeys === "boolean") {
+    options.embedKeys = dataObj.embedKeys;
+  }
+  if (typeof dataObj.includeNotes === "boolean") {
+    options.includeNotes = dataObj.includeNotes;
+  }
+
+  return options;
+}
+
+/**
+ * Parse the "filter" request field into options.filter.
+ * Returns an error message, or null if the filter is valid or absent.
+ */
+function parseFilterOption(
+  dataObj: Record<string, unknown>,
+  options: ExportOptions,
+): string | null {
+  const { filter, error } = AnnotationFilters.parse(dataObj.filter);
+  if (error) return error;
+  options.filter = filter;
+  return null;
+}
+
+/**
+ * Check parsed export options against the requested format.
+ * Returns an error message, or null if the options are valid.
+ */
+function validateExportOptions(
+  format: ExportFormat,
+  options: ExportOptions,
+): string | null {
+  if (
+    options.template &&
+    !JsonExport.isJsonFormat(format) &&
+    !TemplateStore.has(format, options.template)
+  ) {
+    return `Unknown template "${options.template}" for format: ${format}`;
+  }
+  return null;
+}
+
 // Type for Zotero Search
 interface ZoteroSearch {
   addCondition: (field: string, operator: string, value: string) => void;
@@ -348,9 +718,9 @@ interface ZoteroSearch {
 /**
  * HTTP endpoint handler for /export-org/citekey
  * Accepts POST with JSON body:
- *   Single item: {"key": "<citekey>", "libraryID": <optional>, "format": "org"|"md"}
- *   Batch: {"keys": ["<citekey1>", "<citekey2>"], "libraryID": <optional>, "format": "org"|"md"}
- * Default format is "md" (markdown).
+ *   Single item: {"key": "<citekey>", "libraryID": <optional>, "format": "<format id>"}
+ *   Batch: {"keys": ["<citekey1>", "<citekey2>"], "libraryID": <optional>, "format": "<format id>"}
+ * Default format is the defaultFormat preference.
  */
 function CitekeyEndpoint() {
   // @ts-expect-error - Zotero endpoint pattern
@@ -371,7 +741,9 @@ function CitekeyEndpoint() {
     let citekey: string | undefined;
     let citekeys: string[] | undefined;
     let libraryID: number | undefined;
-    let format: ExportFormat = "md"; // Default to markdown
+    let format: ExportFormat = Exporter.defaultFormat();
+    let exportOptions: ExportOptions = {};
+    let filterError: string | null = null;
 
     if (data && typeof data === "object") {
       const dataObj = data as Record<string, unknown>;
@@ -384,9 +756,24 @@ function CitekeyEndpoint() {
       if (typeof dataObj.libraryID === "number") {
         libraryID = dataObj.libraryID;
       }
-      if (dataObj.format === "org" || dataObj.format === "md") {
+      if (
+        FormatRegistry.has(dataObj.format) ||
+        JsonExport.isJsonFormat(dataObj.format)
+      ) {
         format = dataObj.format;
       }
+      exportOptions = parseExportOptions(dataObj);
+      filterError = parseFilterOption(dataObj, exportOptions);
+    }
+
+    const optionsError =
+      filterError ?? validateExportOptions(format, exportOptions);
+    if (optionsError) {
+      sendResponseCallback(400, "application/json", JSON.stringify({
+        success: false,
+        error: optionsError,
+      }));
+      return;
     }
 
     // Handle batch request (array of keys)
@@ -418,8 +805,31 @@ function CitekeyEndpoint() {
           return;
         }
 
+        if (JsonExport.isJsonFormat(format)) {
+          const json = await JsonExport.items(items, resolvedCitekeys, exportOptions.filter);
+          if (json.items.length === 0) {
+            const response: ApiResponse = {
+              success: false,
+              error: "No annotations found for any of the specified items",
+            };
+            sendResponseCallback(404, "application/json", JSON.stringify(response));
+            return;
+          }
+
+          const response: ApiResponse = {
+            success: true,
+            itemCount: json.items.length,
+            totalAnnotations: json.totalAnnotations,
+            format,
+            items: json.items,
+            ...(notFoundKeys.length > 0 ? { error: `Items not found: ${notFoundKeys.join(", ")}` } : {}),
+          };
+          sendResponseCallback(200, "application/json", JSON.stringify(response));
+          return;
+        }
+
         // Generate batch content
-        const result = await Exporter.generateBatchContent(items, format, resolvedCitekeys);
+        const result = await Exporter.generateBatchContent(items, format, resolvedCitekeys, exportOptions);
 
         if (!result) {
           const response: ApiResponse = {
@@ -480,8 +890,31 @@ function CitekeyEndpoint() {
         return;
       }
 
+      if (JsonExport.isJsonFormat(format)) {
+        const json = await JsonExport.item(item, citekey, exportOptions.filter);
+        if (!json) {
+          const response: ApiResponse = {
+            success: false,
+            error: `No annotations found for citekey: ${citekey}`,
+          };
+          sendResponseCallback(404, "application/json", JSON.stringify(response));
+          return;
+        }
+
+        const response: ApiResponse = {
+          success: true,
+          citekey,
+          title: json.title,
+          annotationCount: json.annotationCount,
+          format,
+          item: json,
+        };
+        sendResponseCallback(200, "application/json", JSON.stringify(response));
+        return;
+      }
+
       // Generate content in requested format
-      const result = await Exporter.generateContent(item, format);
+      const result = await Exporter.generateContent(item, format, exportOptions);
 
       if (!result) {
         const response: ApiResponse = {
@@ -732,7 +1165,7 @@ function CollectionsListEndpoint() {
 /**
  * HTTP endpoint handler for /export-org/collection
  * Exports all annotations from items in a Zotero collection.
- * Accepts POST with JSON body: {"collectionID": <number>, "recursive": <bool>, "format": "org"|"md", "libraryID": <optional>}
+ * Accepts POST with JSON body: {"collectionID": <number>, "recursive": <bool>, "format": "<format id>", "libraryID": <optional>}
  */
 function CollectionEndpoint() {
   // @ts-expect-error - Zotero endpoint pattern
@@ -752,7 +1185,9 @@ function CollectionEndpoint() {
     let collectionKey: string | undefined;
     let recursive = false;
     let libraryID: number | undefined;
-    let format: ExportFormat = "md";
+    let format: ExportFormat = Exporter.defaultFormat();
+    let exportOptions: ExportOptions = {};
+    let filterError: string | null = null;
 
     if (data && typeof data === "object") {
       const dataObj = data as Record<string, unknown>;
@@ -770,9 +1205,24 @@ function CollectionEndpoint() {
       if (typeof dataObj.libraryID === "number") {
         libraryID = dataObj.libraryID;
       }
-      if (dataObj.format === "org" || dataObj.format === "md") {
+      if (
+        FormatRegistry.has(dataObj.format) ||
+        JsonExport.isJsonFormat(dataObj.format)
+      ) {
         format = dataObj.format;
       }
+      exportOptions = parseExportOptions(dataObj);
+      filterError = parseFilterOption(dataObj, exportOptions);
+    }
+
+    const optionsError =
+      filterError ?? validateExportOptions(format, exportOptions);
+    if (optionsError) {
+      sendResponseCallback(400, "application/json", JSON.stringify({
+        success: false,
+        error: optionsError,
+      }));
+      return;
     }
 
     ztoolkit.log("Collection API request, collectionKey:", collectionKey, "recursive:", recursive, "format:", format);
@@ -789,12 +1239,7 @@ function CollectionEndpoint() {
       // Get collection by key
       const ZoteroCollections = (Zotero as unknown as {
         Collections: {
-          getByLibraryAndKeyAsync: (libraryID: number, key: string) => Promise<{
-            name: string;
-            libraryID: number;
-            getChildItems: () => Zotero.Item[];
-            getDescendents: (recursive: boolean, type: string) => Array<{ type: string; id: number }>;
-          } | null>;
+          getByLibraryAndKeyAsync: (libraryID: number, key: string) => Promise<Zotero.Collection | null>;
         };
       }).Collections;
 
@@ -812,42 +1257,46 @@ function CollectionEndpoint() {
 
       const collectionName = collection.name;
 
-      // Get items from collection
-      let items: Zotero.Item[] = [];
-
-      if (recursive) {
-        // Get all descendant items (recursive)
-        const descendants = collection.getDescendents(true, "item");
-        const itemIDs = descendants
-          .filter((d: { type: string }) => d.type === "item")
-          .map((d: { id: number }) => d.id);
-
-        if (itemIDs.length > 0) {
-          items = await (Zotero as unknown as {
-            Items: { getAsync: (ids: number[]) => Promise<Zotero.Item[]> };
-          }).Items.getAsync(itemIDs);
-        }
-      } else {
-        // Get direct children only
-        items = collection.getChildItems();
-      }
-
-      // Filter to regular items only (skip attachments, notes)
-      items = items.filter((item) => item.isRegularItem());
+      // Regular items and standalone PDF, EPUB and snapshot attachments
+      const items = await CollectionTree.getItems(collection, recursive);
 
       if (items.length === 0) {
         sendResponseCallback(200, "application/json", JSON.stringify({
           success: false,
           collectionName,
-          error: "No regular items found in collection",
+          error: "No items found in collection",
         }));
         return;
       }
 
       ztoolkit.log("Found", items.length, "items in collection", collectionName);
 
+      if (JsonExport.isJsonFormat(format)) {
+        const json = await JsonExport.items(items, undefined, exportOptions.filter);
+        sendResponseCallback(200, "application/json", JSON.stringify(
+          json.items.length === 0
+            ? {
+                success: false,
+                collectionName,
+                itemCount: items.length,
+                error: "No annotations found in any items",
+              }
+            : {
+                success: true,
+                collectionName,
+                collectionKey,
+                recursive,
+                itemCount: json.items.length,
+                totalAnnotations: json.totalAnnotations,
+                format,
+                items: json.items,
+              },
+        ));
+        return;
+      }
+
       // Generate batch content
-      const result = await Exporter.generateBatchContent(items, format);
+      const result = await Exporter.generateBatchContent(items, format, undefined, exportOptions);
 
       if (!result) {
         sendResponseCallback(200, "application/json", JSON.stringify({
@@ -1228,6 +1677,621 @@ function CollectionsListHierarchicalEndpoint() {
   };
 }
 
+/**
+ * Structured form of an annotation for write-back responses.
+ */
+function annotationResponse(annotation: Zotero.Item): ApiResponse {
+  const attachment = annotation.parentItem;
+  return {
+    success: true,
+    annotation: attachment
+      ? JsonExport.annotation(
+          annotation as unknown as ZoteroAnnotation,
+          attachment,
+        )
+      : undefined,
+  };
+}
+
+/**
+ * HTTP endpoint handler for /export-org/annotation/update
+ * Edits the comment, tags and color of an annotation.
+ * Accepts POST with JSON body: {"key": "<string>", "libraryID": <number>, "comment": "<string>", "tags": ["<string>"], "color": "<string>"}
+ */
+function AnnotationUpdateEndpoint() {
+  // @ts-expect-error - Zotero endpoint pattern
+  this.supportedMethods = ["POST"];
+  // @ts-expect-error - Zotero endpoint pattern
+  this.permitBookmarklet = false;
+
+  // @ts-expect-error - Zotero endpoint pattern
+  this.init = async function (
+    data: unknown,
+    sendResponseCallback: (
+      status: number,
+      contentType?: string,
+      body?: string,
+    ) => void,
+  ) {
+    const dataObj =
+      data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+    const key = typeof dataObj.key === "string" ? dataObj.key : undefined;
+    const libraryID =
+      typeof dataObj.libraryID === "number"
+        ? dataObj.libraryID
+        : Zotero.Libraries.userLibraryID;
+
+    if (!key) {
+      sendResponseCallback(400, "application/json", JSON.stringify({
+        success: false,
+        error: "Missing 'key' parameter",
+      }));
+      return;
+    }
+
+    const { changes, error } = AnnotationWriter.parseChanges(dataObj);
+    if (!changes) {
+      sendResponseCallback(400, "application/json", JSON.stringify({
+        success: false,
+        error,
+      }));
+      return;
+    }
+
+    try {
+      const annotation = await Zotero.Items.getByLibraryAndKeyAsync(libraryID, key);
+      if (!annotation || !annotation.isAnnotation()) {
+        sendResponseCallback(404, "application/json", JSON.stringify({
+          success: false,
+          error: `Annotation not found: ${key}`,
+        }));
+        return;
+      }
+
+      const readOnly = AnnotationWriter.readOnlyReason(annotation);
+      if (readOnly) {
+        sendResponseCallback(403, "application/json", JSON.stringify({
+          success: false,
+          error: readOnly,
+        }));
+        return;
+      }
+
+      await AnnotationWriter.update(annotation, changes);
+      ztoolkit.log("API updated annotation:", key, Object.keys(changes));
+      sendResponseCallback(200, "application/json", JSON.stringify(annotationResponse(annotation)));
+    } catch (e) {
+      sendResponseCallback(500, "application/json", JSON.stringify({
+        success: false,
+        error: `Error updating annotation: ${e instanceof Error ? e.message : String(e)}`,
+      }));
+    }
+  };
+}
+
+/**
+ * HTTP endpoint handler for /export-org/annotation/create
+ * Adds a note annotation to a page of a PDF attachment.
+ * Accepts POST with JSON body: {"attachmentKey": "<string>", "libraryID": <number>, "page": <number>, "pageLabel": "<string>", "comment": "<string>", "color": "<string>", "tags": ["<string>"]}
+ */
+function AnnotationCreateEndpoint() {
+  // @ts-expect-error - Zotero endpoint pattern
+  this.supportedMethods = ["POST"];
+  // @ts-expect-error - Zotero endpoint pattern
+  this.permitBookmarklet = false;
+
+  // @ts-expect-error - Zotero endpoint pattern
+  this.init = async function (
+    data: unknown,
+    sendResponseCallback: (
+      status: number,
+      contentType?: string,
+      body?: string,
+    ) => void,
+  ) {
+    const dataObj =
+      data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+    const attachmentKey =
+      typeof dataObj.attachmentKey === "string" ? dataObj.attachmentKey : undefined;
+    const libraryID =
+      typeof dataObj.libraryID === "number"
+        ? dataObj.libraryID
+        : Zotero.Libraries.userLibraryID;
+
+    if (!attachmentKey) {
+      sendResponseCallback(400, "application/json", JSON.stringify({
+        success: false,
+        error: "Missing 'attachmentKey' parameter",
+      }));
+      return;
+    }
+
+    const { note, error } = AnnotationWriter.parseNote(dataObj);
+    if (!note) {
+      sendResponseCallback(400, "application/json", JSON.stringify({
+        success: false,
+        error,
+      }));
+      return;
+    }
+
+    try {
+      const attachment = await Zotero.Items.getByLibraryAndKeyAsync(libraryID, attachmentKey);
+      if (!attachment || !attachment.isAttachment()) {
+        sendResponseCallback(404, "application/json", JSON.stringify({
+          success: false,
+          error: `Attachment not found: ${attachmentKey}`,
+        }));
+        return;
+      }
+
+      if (!attachment.isPDFAttachment()) {
+        sendResponseCallback(400, "application/json", JSON.stringify({
+          success: false,
+          error: "Note annotations can only be added to PDF attachments",
+        }));
+        return;
+      }
+
+      const readOnly = AnnotationWriter.readOnlyReason(attachment);
+      if (readOnly) {
+        sendResponseCallback(403, "application/json", JSON.stringify({
+          success: false,
+          error: readOnly,
+        }));
+        return;
+      }
+
+      const pageError = await AnnotationWriter.pageError(attachment, note);
+      if (pageError) {
+        sendResponseCallback(400, "application/json", JSON.stringify({
+          success: false,
+          error: pageError,
+        }));
+        return;
+      }
+
+      const annotation = await AnnotationWriter.addNote(attachment, note);
+      ztoolkit.log("API added note annotation:", annotation.key, "to", attachmentKey);
+      sendResponseCallback(200, "application/json", JSON.stringify(annotationResponse(annotation)));
+    } catch (e) {
+      sendResponseCallback(500, "application/json", JSON.stringify({
+        success: false,
+        error: `Error creating annotation: ${e instanceof Error ? e.message : String(e)}`,
+      }));
+    }
+  };
+}
+
+/**
+ * Response of /export-org/import: the preview, and what was written when
+ * "apply" is set.
+ */
+interface ImportResponse extends ApiResponse, ImportPreview {
+  /** Number of annotations changed in Zotero (0 for a preview) */
+  applied: number;
+  failed: ImportResult["failed"];
+  /** The changes as a readable diff */
+  diff: string;
+}
+
+/**
+ * HTTP endpoint handler for /export-org/import
+ * Reads edited comments and tags from an exported document and previews or
+ * applies them.
+ * Accepts POST with JSON body: {"content": "<string>", "format": "<string>", "libraryID": <number>, "apply": <boolean>}
+ */
+function ImportEndpoint() {
+  // @ts-expect-error - Zotero endpoint pattern
+  this.supportedMethods = ["POST"];
+  // @ts-expect-error - Zotero endpoint pattern
+  this.permitBookmarklet = false;
+
+  // @ts-expect-error - Zotero endpoint pattern
+  this.init = async function (
+    data: unknown,
+    sendResponseCallback: (
+      status: number,
+      contentType?: string,
+      body?: string,
+    ) => void,
+  ) {
+    const dataObj =
+      data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+    const formatID =
+      typeof dataObj.format === "string" ? dataObj.format : Exporter.defaultFormat();
+    const format = FormatRegistry.get(formatID);
+
+    if (typeof dataObj.content !== "string") {
+      sendResponseCallback(400, "application/json", JSON.stringify({
+        success: false,
+        error: "Missing 'content' parameter",
+      }));
+      return;
+    }
+
+    if (!format || !SyncImport.supports(format)) {
+      sendResponseCallback(400, "application/json", JSON.stringify({
+        success: false,
+        error: `Format ${formatID} does not support import`,
+      }));
+      return;
+    }
+
+    const unreadable = SyncImport.unreadable(format, dataObj.content);
+    if (unreadable) {
+      sendResponseCallback(400, "application/json", JSON.stringify({
+        success: false,
+        error: unreadable,
+      }));
+      return;
+    }
+
+    try {
+      const preview = await SyncImport.preview(
+        format,
+        dataObj.content,
+        typeof dataObj.libraryID === "number" ? dataObj.libraryID : undefined,
+      );
+      const result =
+        dataObj.apply === true
+          ? await SyncImport.apply(format, preview.changes)
+          : { applied: 0, failed: [] };
+      ztoolkit.log("API import:", preview.changes.length, "changes,", result.applied, "applied");
+
+      const response: ImportResponse = {
+        success: true,
+        ...preview,
+        ...result,
+        diff: SyncImport.describe(preview),
+      };
+      sendResponseCallback(200, "application/json", JSON.stringify(response));
+    } catch (e) {
+      sendResponseCallback(500, "application/json", JSON.stringify({
+        success: false,
+        error: `Error importing changes: ${e instanceof Error ? e.message : String(e)}`,
+      }));
+    }
+  };
+}
+
+/** Default maximum number of annotations returned by /export-org/search */
+const SEARCH_LIMIT = 100;
+
+/**
+ * Response of /export-org/search: an export of the matching annotations.
+ */
+interface SearchResponse extends ApiResponse {
+  query: string;
+  /** All matching annotations, including those over the limit */
+  totalMatches: number;
+  truncated: boolean;
+}
+
+/**
+ * HTTP endpoint handler for /export-org/search
+ * Searches annotation text, comments and tags and exports the matches.
+ * Accepts POST with JSON body: {"query": "<string>", "regex": <boolean>, "fields": ["text", "comment", "tags"], "libraryID": <optional>, "limit": <number>, "format": "<format id>"}
+ */
+function SearchEndpoint() {
+  // @ts-expect-error - Zotero endpoint pattern
+  this.supportedMethods = ["POST"];
+  // @ts-expect-error - Zotero endpoint pattern
+  this.permitBookmarklet = false;
+
+  // @ts-expect-error - Zotero endpoint pattern
+  this.init = async function (
+    data: unknown,
+    sendResponseCallback: (
+      status: number,
+      contentType?: string,
+      body?: string,
+    ) => void,
+  ) {
+    const dataObj =
+      data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+    const format: ExportFormat =
+      FormatRegistry.has(dataObj.format) || JsonExport.isJsonFormat(dataObj.format)
+        ? dataObj.format
+        : Exporter.defaultFormat();
+    const exportOptions = parseExportOptions(dataObj);
+    const { query, error: queryError } = AnnotationSearch.parse(dataObj);
+    const limit = dataObj.limit ?? SEARCH_LIMIT;
+    const limitError =
+      typeof limit !== "number" || !Number.isInteger(limit) || limit < 1
+        ? "'limit' must be a positive integer"
+        : null;
+
+    const error =
+      queryError ??
+      limitError ??
+      parseFilterOption(dataObj, exportOptions) ??
+      validateExportOptions(format, exportOptions);
+    if (!query || error) {
+      sendResponseCallback(400, "application/json", JSON.stringify({
+        success: false,
+        error,
+      }));
+      return;
+    }
+
+    const libraryID =
+      typeof dataObj.libraryID === "number" ? dataObj.libraryID : undefined;
+    ztoolkit.log("API search:", query.query, "regex:", query.regex, "libraryID:", libraryID, "format:", format);
+
+    try {
+      const found = await AnnotationSearch.find(query, {
+        libraryID,
+        filter: exportOptions.filter,
+        limit: limit as number,
+      });
+      // Export only the matches within the limit
+      const filter = { ...exportOptions.filter, keys: found.keys };
+      const response: SearchResponse = {
+        success: true,
+        query: query.query,
+        totalMatches: found.totalMatches,
+        truncated: found.totalMatches > found.keys.length,
+        itemCount: 0,
+        totalAnnotations: 0,
+        format,
+      };
+
+      if (JsonExport.isJsonFormat(format)) {
+        const json = await JsonExport.items(found.items, undefined, filter);
+        response.itemCount = json.items.length;
+        response.totalAnnotations = json.totalAnnotations;
+        response.items = json.items;
+      } else {
+        const result = await Exporter.generateBatchContent(
+          found.items,
+          format,
+          undefined,
+          { ...exportOptions, includeNotes: false, filter },
+        );
+        response.itemCount = result?.itemCount ?? 0;
+        response.totalAnnotations = result?.totalAnnotations ?? 0;
+        response.content = result?.content ?? "";
+        response.items = result?.items ?? [];
+      }
+      sendResponseCallback(200, "application/json", JSON.stringify(response));
+    } catch (e) {
+      sendResponseCallback(500, "application/json", JSON.stringify({
+        success: false,
+        error: `Error searching annotations: ${e instanceof Error ? e.message : String(e)}`,
+      }));
+    }
+  };
+}
+
+/**
+ * HTTP endpoint handler for /export-org/tag
+ * Exports all annotations with a tag in a library.
+ * Accepts POST with JSON body: {"tag": "<tag>", "libraryID": <optional>, "format": "<format id>"}
+ */
+function TagEndpoint() {
+  // @ts-expect-error - Zotero endpoint pattern
+  this.supportedMethods = ["POST"];
+  // @ts-expect-error - Zotero endpoint pattern
+  this.permitBookmarklet = false;
+
+  // @ts-expect-error - Zotero endpoint pattern
+  this.init = async function (
+    data: unknown,
+    sendResponseCallback: (
+      status: number,
+      contentType?: string,
+      body?: string,
+    ) => void,
+  ) {
+    const dataObj =
+      data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+    const tag = typeof dataObj.tag === "string" ? dataObj.tag.trim() : "";
+    const format: ExportFormat =
+      FormatRegistry.has(dataObj.format) || JsonExport.isJsonFormat(dataObj.format)
+        ? dataObj.format
+        : Exporter.defaultFormat();
+    const exportOptions = parseExportOptions(dataObj);
+
+    const error =
+      (tag ? null : "Missing 'tag' parameter") ??
+      parseFilterOption(dataObj, exportOptions) ??
+      validateExportOptions(format, exportOptions);
+    if (error) {
+      sendResponseCallback(400, "application/json", JSON.stringify({
+        success: false,
+        error,
+      }));
+      return;
+    }
+
+    const libraryID =
+      typeof dataObj.libraryID === "number"
+        ? dataObj.libraryID
+        : Zotero.Libraries.userLibraryID;
+    ztoolkit.log("Tag API request, tag:", tag, "libraryID:", libraryID, "format:", format);
+
+    try {
+      const items = await TagItems.getItems(libraryID, tag);
+      const options = Exporter.tagOptions(tag, exportOptions);
+
+      if (JsonExport.isJsonFormat(format)) {
+        const json = await JsonExport.items(items, undefined, options.filter);
+        sendResponseCallback(200, "application/json", JSON.stringify(
+          json.items.length === 0
+            ? { success: false, tag, error: `No annotations tagged "${tag}" found` }
+            : {
+                success: true,
+                tag,
+                itemCount: json.items.length,
+                totalAnnotations: json.totalAnnotations,
+                format,
+                items: json.items,
+              },
+        ));
+        return;
+      }
+
+      const result = await Exporter.generateBatchContent(items, format, undefined, options);
+      if (!result) {
+        sendResponseCallback(200, "application/json", JSON.stringify({
+          success: false,
+          tag,
+          error: `No annotations tagged "${tag}" found`,
+        }));
+        return;
+      }
+
+      sendResponseCallback(200, "application/json", JSON.stringify({
+        success: true,
+        tag,
+        itemCount: result.itemCount,
+        totalAnnotations: result.totalAnnotations,
+        format,
+        content: result.content,
+        items: result.items,
+        ...(format === "org" ? { org: result.content } : {}),
+      }));
+    } catch (e) {
+      sendResponseCallback(500, "application/json", JSON.stringify({
+        success: false,
+        error: `Error exporting tag: ${e instanceof Error ? e.message : String(e)}`,
+      }));
+    }
+  };
+}
+
+/**
+ * HTTP endpoint handler for /export-org/saved-search
+ * Runs a saved search and exports annotations from the matching items.
+ * Accepts POST with JSON body: {"searchKey": "<key>" or "searchName": "<name>", "libraryID": <optional>, "format": "<format id>"}
+ */
+function SavedSearchEndpoint() {
+  // @ts-expect-error - Zotero endpoint pattern
+  this.supportedMethods = ["POST"];
+  // @ts-expect-error - Zotero endpoint pattern
+  this.permitBookmarklet = false;
+
+  // @ts-expect-error - Zotero endpoint pattern
+  this.init = async function (
+    data: unknown,
+    sendResponseCallback: (
+      status: number,
+      contentType?: string,
+      body?: string,
+    ) => void,
+  ) {
+    const dataObj =
+      data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+    const searchKey =
+      typeof dataObj.searchKey === "string"
+        ? dataObj.searchKey
+        : typeof dataObj.searchName === "string"
+          ? dataObj.searchName
+          : "";
+    const format: ExportFormat =
+      FormatRegistry.has(dataObj.format) || JsonExport.isJsonFormat(dataObj.format)
+        ? dataObj.format
+        : Exporter.defaultFormat();
+    const exportOptions = parseExportOptions(dataObj);
+
+    const error =
+      (searchKey.trim() ? null : "Missing 'searchKey' or 'searchName' parameter") ??
+      parseFilterOption(dataObj, exportOptions) ??
+      validateExportOptions(format, exportOptions);
+    if (error) {
+      sendResponseCallback(400, "application/json", JSON.stringify({
+        success: false,
+        error,
+      }));
+      return;
+    }
+
+    const libraryID =
+      typeof dataObj.libraryID === "number"
+        ? dataObj.libraryID
+        : Zotero.Libraries.userLibraryID;
+    ztoolkit.log("Saved search API request, search:", searchKey, "libraryID:", libraryID, "format:", format);
+
+    try {
+      const search = await SavedSearches.find(libraryID, searchKey);
+      if (!search) {
+        sendResponseCallback(404, "application/json", JSON.stringify({
+          success: false,
+          error: `Saved search not found: ${searchKey}`,
+        }));
+        return;
+      }
+
+      const searchName = search.name;
+      const items = await SavedSearches.getItems(search);
+
+      if (items.length === 0) {
+        sendResponseCallback(200, "application/json", JSON.stringify({
+          success: false,
+          searchName,
+          error: "No items match the saved search",
+        }));
+        return;
+      }
+
+      ztoolkit.log("Found", items.length, "items in saved search", searchName);
+
+      if (JsonExport.isJsonFormat(format)) {
+        const json = await JsonExport.items(items, undefined, exportOptions.filter);
+        sendResponseCallback(200, "application/json", JSON.stringify(
+          json.items.length === 0
+            ? {
+                success: false,
+                searchName,
+                itemCount: items.length,
+                error: "No annotations found in any items",
+              }
+            : {
+                success: true,
+                searchName,
+                searchKey: search.key,
+                itemCount: json.items.length,
+                totalAnnotations: json.totalAnnotations,
+                format,
+                items: json.items,
+              },
+        ));
+        return;
+      }
+
+      const result = await Exporter.generateBatchContent(items, format, undefined, exportOptions);
+
+      if (!result) {
+        sendResponseCallback(200, "application/json", JSON.stringify({
+          success: false,
+          searchName,
+          itemCount: items.length,
+          error: "No annotations found in any items",
+        }));
+        return;
+      }
+
+      sendResponseCallback(200, "application/json", JSON.stringify({
+        success: true,
+        searchName,
+        searchKey: search.key,
+        itemCount: result.itemCount,
+        totalAnnotations: result.totalAnnotations,
+        format,
+        content: result.content,
+        items: result.items,
+        ...(format === "org" ? { org: result.content } : {}),
+      }));
+    } catch (e) {
+      sendResponseCallback(500, "application/json", JSON.stringify({
+        success: false,
+        error: `Error processing saved search: ${e instanceof Error ? e.message : String(e)}`,
+      }));
+    }
+  };
+}
+
 export class ApiEndpoints {
   /**
    * Register HTTP API endpoints with Zotero's server.
@@ -1242,6 +2306,12 @@ export class ApiEndpoints {
     Zotero.Server.Endpoints["/export-org/collection/select"] = CollectionSelectEndpoint;
     Zotero.Server.Endpoints["/export-org/collection/create"] = CollectionCreateEndpoint;
     Zotero.Server.Endpoints["/export-org/collections/list"] = CollectionsListHierarchicalEndpoint;
-    ztoolkit.log("Registered API endpoints: /export-org/citekey, /export-org/libraries, /export-org/picker, /export-org/collections, /export-org/collection, /export-org/collection/current, /export-org/collection/select, /export-org/collection/create, /export-org/collections/list");
+    Zotero.Server.Endpoints["/export-org/annotation/update"] = AnnotationUpdateEndpoint;
+    Zotero.Server.Endpoints["/export-org/annotation/create"] = AnnotationCreateEndpoint;
+    Zotero.Server.Endpoints["/export-org/import"] = ImportEndpoint;
+    Zotero.Server.Endpoints["/export-org/search"] = SearchEndpoint;
+    Zotero.Server.Endpoints["/export-org/tag"] = TagEndpoint;
+    Zotero.Server.Endpoints["/export-org/saved-search"] = SavedSearchEndpoint;
+    ztoolkit.log("Registered API endpoints: /export-org/citekey, /export-org/libraries, /export-org/picker, /export-org/collections, /export-org/collection, /export-org/collection/current, /export-org/collection/select, /export-org/collection/create, /export-org/collections/list, /export-org/annotation/update, /export-org/annotation/create, /export-org/import, /export-org/search, /export-org/tag, /export-org/saved-search");
   }
 }
@@ -0,0 +1,191 @@
+/**
+ * Automatic export when annotations change.
+ *
+ * Watches Zotero.Notifier for annotation add/modify/delete events, debounces
+ * them per top-level item and syncs that item's notes file in the configured
+ * folder, so user-written text in the file is kept (see syncExport.ts).
+ *
+ * Opt-in via preferences:
+ * - autoExport: enable the subsystem
+ * - autoExportDir: target folder
+ * - autoExportFormat: output format id
+ * - autoExportFilename: filename pattern (see filenamePattern.ts)
+ * - autoExportDelay: debounce delay in seconds
+ */
+
+import { getPref } from "../utils/prefs";
+import { Exporter } from "./exporter";
+import { FilenamePattern } from "./filenamePattern";
+import { FormatRegistry } from "./formatRegistry";
+
+const WATCHED_EVENTS = ["add", "modify", "delete"];
+
+/** Notifier data by item ID; deleted annotations carry their parent */
+type NotifierData = Record<string, { parentItemID?: number } | undefined>;
+
+export class AutoExport {
+  private static observerID: string | null = null;
+  private static timers = new Map<number, ReturnType<typeof setTimeout>>();
+  /** Annotation ID → top-level item ID, so deletions can be attributed */
+  private static parents = new Map<number, number>();
+
+  /**
+   * Register the notifier observer. Events are ignored while the
+   * autoExport preference is off.
+   */
+  static register(): void {
+    if (this.observerID) return;
+
+    this.observerID = Zotero.Notifier.registerObserver(
+      {
+        notify: async (
+          event: string,
+          _type: string,
+          ids: Array<string | number>,
+          extraData: NotifierData,
+        ) => {
+          try {
+            await this.onNotify(event, ids, extraData);
+          } catch (e) {
+            ztoolkit.log("Auto-export notifier error:", e);
+          }
+        },
+      },
+      ["item"],
+      `${addon.data.config.addonRef}-autoExport`,
+    );
+  }
+
+  /**
+   * Unregister the observer and cancel pending exports.
+   */
+  static unregister(): void {
+    if (this.observerID) {
+      Zotero.Notifier.unregisterObserver(this.observerID);
+      this.observerID = null;
+    }
+
+    const clearTimeout = ztoolkit.getGlobal("clearTimeout");
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.parents.clear();
+  }
+
+  private static async onNotify(
+    event: string,
+    ids: Array<string | number>,
+    extraData: NotifierData,
+  ): Promise<void> {
+    if (!getPref("autoExport") || !WATCHED_EVENTS.includes(event)) return;
+
+    for (const id of ids) {
+      const itemID = await this.resolveTopLevelItemID(
+        Number(id),
+        event,
+        extraData?.[id],
+      );
+      if (itemID) {
+        this.schedule(itemID);
+      }
+    }
+  }
+
+  /**
+   * Map an annotation to the regular item (or standalone attachment) whose
+   * notes file it belongs to. Deleted annotations are resolved from the
+   * notifier data when available, otherwise from earlier events.
+   */
+  private static async resolveTopLevelItemID(
+    id: number,
+    event: string,
+    data: { parentItemID?: number } | undefined,
+  ): Promise<number | null> {
+    if (event === "delete") {
+      const parentID = this.parents.get(id) ?? data?.parentItemID;
+      if (!parentID) return null;
+      const attachment = await Zotero.Items.getAsync(parentID);
+      // parentItemID may already be the top-level item
+      return attachment?.parentItemID || parentID;
+    }
+
+    const item = await Zotero.Items.getAsync(id);
+    if (!item || !item.isAnnotation()) return null;
+
+    const attachment = item.parentItemID
+      ? await Zotero.Items.getAsync(item.parentItemID)
+      : null;
+    if (!attachment) return null;
+
+    const topLevelID = attachment.parentItemID || attachment.id;
+    this.parents.set(id, topLevelID);
+    return topLevelID;
+  }
+
+  /**
+   * Debounce exports per item: each new event restarts the timer.
+   */
+  private static schedule(itemID: number): void {
+    const setTimeout = ztoolkit.getGlobal("setTimeout");
+    const clearTimeout = ztoolkit.getGlobal("clearTimeout");
+
+    const pending = this.timers.get(itemID);
+    if (pending) {
+      clearTimeout(pending);
+    }
+
+    const delay = Math.max(0, getPref("autoExportDelay") || 0) * 1000;
+    this.timers.set(
+      itemID,
+      setTimeout(() => {
+        this.timers.delete(itemID);
+        this.run(itemID).catch((e) =>
+          ztoolkit.log("Auto-export failed for item", itemID, e),
+        );
+      }, delay),
+    );
+  }
+
+  /**
+   * Sync one item's notes file in the configured folder.
+   */
+  private static async run(itemID: number): Promise<void> {
+    const directory = getPref("autoExportDir");
+    if (!directory) {
+      ztoolkit.log("Auto-export skipped: no export folder configured");
+      return;
+    }
+
+    const format = getPref("autoExportFormat");
+    const outputFormat = FormatRegistry.get(format);
+    if (!outputFormat) {
+      ztoolkit.log("Auto-export skipped: unknown format", format);
+      return;
+    }
+
+    const item = await Zotero.Items.getAsync(itemID);
+    if (!item || item.deleted) return;
+
+    await IOUtils.makeDirectory(directory, { ignoreExisting: true });
+    const path = PathUtils.join(
+      directory,
+      FilenamePattern.build(
+        item,
+        outputFormat.extension,
+        getPref("autoExportFilename") || "{citekey}",
+      ),
+    );
+
+    const result = await Exporter.syncToFile(item, format, path, {
+      quiet: true,
+    });
+    if (result) {
+      ztoolkit.log(
+        "Auto-exported",
+        path,
+        `added ${result.added}, updated ${result.updated}, deleted ${result.deleted}`,
+      );
+    }
+  }
+}
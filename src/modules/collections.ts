@@ -0,0 +1,87 @@
+/**
+ * Collection walking for collection exports (context menu and HTTP API).
+ *
+ * Exportable items are regular items and standalone PDF, EPUB and snapshot
+ * attachments; notes and other attachments are left out.
+ */
+
+import { isReaderAttachment } from "./annotationLocation";
+
+export interface CollectionNode {
+  collection: Zotero.Collection;
+  /** Collection names from the exported collection down to this one */
+  path: string[];
+  /** Exportable items directly in this collection */
+  items: Zotero.Item[];
+  children: CollectionNode[];
+}
+
+function isExportable(item: Zotero.Item): boolean {
+  return item.isRegularItem() || isReaderAttachment(item);
+}
+
+export class CollectionTree {
+  /**
+   * Exportable items in a collection, optionally including all
+   * subcollections. Items in several subcollections are listed once.
+   */
+  static async getItems(
+    collection: Zotero.Collection,
+    recursive: boolean,
+  ): Promise<Zotero.Item[]> {
+    let items: Zotero.Item[] = [];
+
+    if (recursive) {
+      // Get all descendant items (recursive)
+      const descendants = collection.getDescendents(true, "item") as Array<{
+        type: string;
+        id: number;
+      }>;
+      const itemIDs = Array.from(
+        new Set(descendants.filter((d) => d.type === "item").map((d) => d.id)),
+      );
+
+      if (itemIDs.length > 0) {
+        items = await (
+          Zotero as unknown as {
+            Items: { getAsync: (ids: number[]) => Promise<Zotero.Item[]> };
+          }
+        ).Items.getAsync(itemIDs);
+      }
+    } else {
+      // Get direct children only
+      items = collection.getChildItems();
+    }
+
+    return items.filter(isExportable);
+  }
+
+  /**
+   * Build the tree of a collection and (if recursive) its subcollections.
+   */
+  static build(
+    collection: Zotero.Collection,
+    recursive: boolean,
+    path: string[] = [],
+  ): CollectionNode {
+    const nodePath = [...path, collection.name];
+    return {
+      collection,
+      path: nodePath,
+      items: collection.getChildItems().filter(isExportable),
+      children: recursive
+        ? collection
+            .getChildCollections()
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .map((child) => this.build(child, true, nodePath))
+        : [],
+    };
+  }
+
+  /**
+   * All nodes of a tree, parents before their subcollections.
+   */
+  static flatten(node: CollectionNode): CollectionNode[] {
+    return [node, ...node.children.flatMap((child) => this.flatten(child))];
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Maps annotation highlight colors to user-defined meanings.
+ *
+ * The legend is stored in the "colorLegend" preference as a JSON object of
+ * hex color to label, e.g. {"#ffd400": "Claim", "#ff6666": "Disagreement"}.
+ * Colors missing from the legend are labelled with their hex value. The
+ * preferences pane edits it as text, one "#ffd400 = Claim" line per color.
+ */
+
+import { getPref } from "../utils/prefs";
+
+/** Zotero's built-in annotation colors, used when no legend is set */
+export const DEFAULT_COLOR_LEGEND: Record<string, string> = {
+  "#ffd400": "Yellow",
+  "#ff6666": "Red",
+  "#5fb236": "Green",
+  "#2ea8e5": "Blue",
+  "#a28ae5": "Purple",
+  "#e56eee": "Magenta",
+  "#f19837": "Orange",
+  "#aaaaaa": "Gray",
+};
+
+export interface ColorGroup<T> {
+  color: string;
+  label: string;
+  entries: T[];
+}
+
+function normalizeColor(color: string | undefined): string {
+  return (color || "").trim().toLowerCase();
+}
+
+export class ColorLegend {
+  /**
+   * The configured legend with normalized color keys.
+   * Falls back to the default legend if the preference is empty or invalid.
+   */
+  static get(): Record<string, string> {
+    const raw = getPref("colorLegend");
+    let legend = DEFAULT_COLOR_LEGEND;
+
+    if (raw) {
+      try {
+        const parsed = JSON.parse(raw) as unknown;
+        if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+          legend = parsed as Record<string, string>;
+        }
+      } catch (e) {
+        ztoolkit.log("Invalid colorLegend preference:", e);
+      }
+    }
+
+    const normalized: Record<string, string> = {};
+    for (const [color, label] of Object.entries(legend)) {
+      if (typeof label === "string") {
+        normalized[normalizeColor(color)] = label;
+      }
+    }
+    return normalized;
+  }
+
+  /**
+   * A legend as text for editing, one "color = label" line per color.
+   */
+  static toText(legend: Record<string, string>): string {
+    return Object.entries(legend)
+      .map(([color, label]) => `${color} = ${label}`)
+      .join("\n");
+  }
+
+  /**
+   * Read a legend edited as text; blank lines are ignored. Colors are hex
+   * colors (#rgb or #rrggbb) and labels cannot be empty.
+   */
+  static fromText(text: string): {
+    legend?: Record<string, string>;
+    error?: string;
+  } {
+    const legend: Record<string, string> = {};
+    const lines = text.split("\n");
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (!line) continue;
+      const match = line.match(/^(#[\da-f]{3}|#[\da-f]{6})\s*=\s*(\S.*)$/i);
+      if (!match) {
+        return { error: `Line ${i + 1}: expected "#rrggbb = label"` };
+      }
+      const color = normalizeColor(match[1]);
+      if (color in legend) {
+        return { error: `Line ${i + 1}: ${color} is listed twice` };
+      }
+      legend[color] = match[2].trim();
+    }
+    return { legend };
+  }
+
+  /**
+   * Label for a color, or the color itself if it is not in the legend.
+   */
+  static label(
+    color: string | undefined,
+    legend: Record<string, string> = this.get(),
+  ): string {
+    const key = normalizeColor(color);
+    if (!key) return "No color";
+    return legend[key] || key;
+  }
+
+  /**
+   * Group entries by color. Groups follow legend order, then any other
+   * colors in the order they first appear. Entry order is preserved within
+   * each group.
+   */
+  static group<T>(
+    entries: T[],
+    getColor: (entry: T) => string | undefined,
+  ): ColorGroup<T>[] {
+    const legend = this.get();
+    const groups = new Map<string, ColorGroup<T>>();
+
+    for (const color of Object.keys(legend)) {
+      groups.set(color, { color, label: legend[color], entries: [] });
+    }
+
+    for (const entry of entries) {
+      const color = normalizeColor(getColor(entry));
+      let group = groups.get(color);
+      if (!group) {
+        group = { color, label: this.label(color, legend), entries: [] };
+        groups.set(color, group);
+      }
+      group.entries.push(entry);
+    }
+
+    return Array.from(groups.values()).filter((g) => g.entries.length > 0);
+  }
+}
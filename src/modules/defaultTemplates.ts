@@ -0,0 +1,137 @@
+/**
+ * Built-in export templates.
+ *
+ * These reproduce the original hard-coded org-mode and markdown output and
+ * are used whenever no user template is selected. User templates fall back
+ * to them for any part they leave out.
+ *
+ * Header variables: title, authors, date, publication, doi, url, zoteroKey,
+ * citekey, abstract. Only the fields enabled by the metadataFields and
+ * includeAbstract preferences are set.
+ *
+ * Annotation variables: the header variables of the parent item, plus type,
+ * key, link (empty when the linkStyle preference is "none"), zoteroUrl,
+ * page, text (escaped for the format), comment (converted from Zotero's
+ * rich text, see noteConverter.ts), color, tags, tagList, image
+ * (exported image path or data URI), imageLink (image as org/md link),
+ * colorLabel (meaning from the color legend), colorAttr (color as an org
+ * #+attr_zotero line or Pandoc span, only when showing colors)
+ * and citation ([cite:@citekey, p. 12] or [@citekey, p. 12], only when
+ * citations are on and the item has a citekey).
+ */
+
+export interface TemplateSet {
+  /** Template name, unique per format ("default" for built-ins) */
+  name: string;
+  /** Id of the output format this template set renders */
+  format: string;
+  header: string;
+  highlight: string;
+  /** Falls back to the highlight template when omitted */
+  underline?: string;
+  note: string;
+  image: string;
+  ink: string;
+}
+
+export const ORG_DEFAULT_TEMPLATES: TemplateSet = {
+  name: "default",
+  format: "org",
+  header: [
+    "* {{#if title}}{{title}}{{else}}Untitled{{/if}}\n",
+    ":PROPERTIES:\n",
+    "{{#if authors}}:AUTHOR: {{authors}}\n{{/if}}",
+    "{{#if date}}:DATE: {{date}}\n{{/if}}",
+    "{{#if publication}}:PUBLICATION: {{publication}}\n{{/if}}",
+    "{{#if doi}}:DOI: {{doi}}\n{{/if}}",
+    "{{#if url}}:URL: {{url}}\n{{/if}}",
+    "{{#if zoteroKey}}:ZOTERO_KEY: {{zoteroKey}}\n{{/if}}",
+    "{{#if citekey}}:CUSTOM_ID: {{citekey}}\n{{/if}}",
+    ":END:\n\n",
+    "{{#if abstract}}** Abstract\n{{abstract}}\n\n{{/if}}",
+    "** Annotations\n\n",
+  ].join(""),
+  highlight: [
+    "{{#if link}}{{link}}\n{{/if}}",
+    "{{#if colorAttr}}{{colorAttr}}\n{{/if}}",
+    "#+begin_quote\n{{text}}{{#if citation}} {{citation}}{{/if}}\n",
+    "#+end_quote\n",
+    "{{#if comment}}\n{{comment}}\n{{/if}}",
+    "{{#if tags}}{{tags}}\n{{/if}}",
+  ].join(""),
+  note: [
+    "{{#if link}}{{link}}\n{{/if}}",
+    "{{#if colorAttr}}{{colorAttr}}\n{{/if}}",
+    "#+begin_comment\n{{comment}}\n#+end_comment\n",
+    "{{#if tags}}{{tags}}\n{{/if}}",
+  ].join(""),
+  image: [
+    "{{#if link}}{{link}}\n{{/if}}",
+    "{{#if colorAttr}}{{colorAttr}}\n{{/if}}",
+    "{{#if imageLink}}{{imageLink}}\n{{else}}",
+    "#+begin_example\n[Image annotation at {{page}}]\n#+end_example\n",
+    "{{/if}}",
+    "{{#if comment}}\n{{comment}}\n{{/if}}",
+    "{{#if tags}}{{tags}}\n{{/if}}",
+  ].join(""),
+  ink: [
+    "{{#if link}}{{link}}\n{{/if}}",
+    "{{#if colorAttr}}{{colorAttr}}\n{{/if}}",
+    "{{#if imageLink}}{{imageLink}}\n{{else}}",
+    "#+begin_example\n[Ink/drawing annotation at {{page}}]\n#+end_example\n",
+    "{{/if}}",
+    "{{#if comment}}\n{{comment}}\n{{/if}}",
+    "{{#if tags}}{{tags}}\n{{/if}}",
+  ].join(""),
+};
+
+export const MARKDOWN_DEFAULT_TEMPLATES: TemplateSet = {
+  name: "default",
+  format: "md",
+  header: [
+    "---\n",
+    '{{#if title}}title: "{{title | yaml}}"\n{{/if}}',
+    '{{#if authors}}author: "{{authors | yaml}}"\n{{/if}}',
+    '{{#if date}}date: "{{date | yaml}}"\n{{/if}}',
+    '{{#if publication}}publication: "{{publication | yaml}}"\n{{/if}}',
+    '{{#if doi}}doi: "{{doi | yaml}}"\n{{/if}}',
+    '{{#if url}}url: "{{url | yaml}}"\n{{/if}}',
+    '{{#if zoteroKey}}zotero_key: "{{zoteroKey}}"\n{{/if}}',
+    '{{#if citekey}}citekey: "{{citekey}}"\n{{/if}}',
+    "---\n\n",
+    "# {{#if title}}{{title}}{{else}}Untitled{{/if}}\n\n",
+    "{{#if abstract}}## Abstract\n\n{{abstract}}\n\n{{/if}}",
+    "## Annotations\n\n",
+  ].join(""),
+  highlight: [
+    "{{#if link}}{{link}}\n\n{{/if}}",
+    "{{#if colorAttr}}{{colorAttr}}\n\n{{/if}}",
+    "{{text | quote}}{{#if citation}} {{citation}}{{/if}}\n",
+    "{{#if comment}}\n{{comment}}\n{{/if}}",
+    "{{#if tags}}\n{{tags}}\n{{/if}}",
+  ].join(""),
+  note: [
+    "{{#if link}}{{link}}\n\n{{/if}}",
+    "{{#if colorAttr}}{{colorAttr}}\n\n{{/if}}",
+    "{{comment}}\n",
+    "{{#if tags}}\n{{tags}}\n{{/if}}",
+  ].join(""),
+  image: [
+    "{{#if link}}{{link}}\n\n{{/if}}",
+    "{{#if colorAttr}}{{colorAttr}}\n\n{{/if}}",
+    "{{#if imageLink}}{{imageLink}}\n{{else}}",
+    "*[Image annotation at {{page}}]*\n",
+    "{{/if}}",
+    "{{#if comment}}\n{{comment}}\n{{/if}}",
+    "{{#if tags}}\n{{tags}}\n{{/if}}",
+  ].join(""),
+  ink: [
+    "{{#if link}}{{link}}\n\n{{/if}}",
+    "{{#if colorAttr}}{{colorAttr}}\n\n{{/if}}",
+    "{{#if imageLink}}{{imageLink}}\n{{else}}",
+    "*[Ink/drawing annotation at {{page}}]*\n",
+    "{{/if}}",
+    "{{#if comment}}\n{{comment}}\n{{/if}}",
+    "{{#if tags}}\n{{tags}}\n{{/if}}",
+  ].join(""),
+};
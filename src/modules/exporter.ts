@@ -1,27 +1,106 @@
 /**
- * Main export orchestration for PDF and EPUB annotations.
- * Supports multiple output formats: org-mode and markdown.
+ * Main export orchestration for PDF, EPUB and snapshot annotations.
+ * Output formats are looked up in the FormatRegistry (org-mode and
+ * markdown are built in).
  */
 
-// Supported attachment content types
-const SUPPORTED_CONTENT_TYPES = [
-  "application/pdf",
-  "application/epub+zip",
-];
-
 import {
-  AnnotationFormatter,
+  FormatOptions,
+  LinkStyle,
+  TagStyle,
   ZoteroAnnotation,
 } from "./annotationFormatter";
+import { getPref } from "../utils/prefs";
+import { AnnotationFilter, AnnotationFilters } from "./annotationFilter";
+import { AnnotationImages } from "./annotationImages";
+import { AnnotationLocation, isReaderAttachment } from "./annotationLocation";
+import { ColorLegend } from "./colorLegend";
+import { CollectionNode, CollectionTree } from "./collections";
+import { FilenamePattern } from "./filenamePattern";
+import { FormatRegistry, OutputFormat } from "./formatRegistry";
 import { MetadataFormatter } from "./metadataFormatter";
-import { MarkdownFormatter } from "./markdownFormatter";
-import { MarkdownMetadataFormatter } from "./markdownMetadataFormatter";
+import { Outline, OutlineEntry, OutlineGroups } from "./outline";
+import { SavedSearch, SavedSearches } from "./savedSearches";
+import {
+  BlockStyle,
+  RenderedBlock,
+  SyncExport,
+  SyncResult,
+} from "./syncExport";
+import { TagItems } from "./tags";
+import { DEFAULT_TEMPLATE_NAME, TemplateStore } from "./templates";
+
+/** Id of a format registered in the FormatRegistry, e.g. "org" or "md" */
+export type ExportFormat = string;
+
+/** Order of annotations within an attachment (sortOrder preference) */
+type SortOrder = "position" | "dateAdded" | "dateModified";
+
+/**
+ * Per-export settings threaded from the menu or API down to the formatters.
+ */
+export interface ExportOptions {
+  /** Name of the template set to render with (default: built-in) */
+  template?: string;
+  /** Path of the file being written; image annotations are saved next to it */
+  outputPath?: string;
+  /** Embed image annotations as data URIs (clipboard and API exports) */
+  inlineImages?: boolean;
+  /** Group annotations under a heading per color (default: preference) */
+  groupByColor?: boolean;
+  /**
+   * Nest annotations under headings from the attachment's table of
+   * contents (default: preference)
+   */
+  groupByOutline?: boolean;
+  /** Emit each annotation's color as an attribute (default: preference) */
+  showColor?: boolean;
+  /** Cite the item's citekey after each quote (default: preference) */
+  citations?: boolean;
+  /** Wrap annotations in key markers so the file can be synced later */
+  embedKeys?: boolean;
+  /** Suppress progress window messages (background exports) */
+  quiet?: boolean;
+  /** Only export annotations matching this filter */
+  filter?: AnnotationFilter;
+  /** Add the item's child notes in a "Notes" section (default: preference) */
+  includeNotes?: boolean;
+}
+
+/** An attachment with its annotations in export order */
+export interface AttachmentAnnotations {
+  attachment: Zotero.Item;
+  annotations: ZoteroAnnotation[];
+}
 
-export type ExportFormat = "org" | "md";
+/** An annotation with the attachment it belongs to */
+interface AnnotationEntry {
+  annotation: ZoteroAnnotation;
+  attachment: Zotero.Item;
+  /** Formatted annotation text */
+  content: string;
+}
 
 interface GenerateResult {
   content: string;
   annotationCount: number;
+  /** Notes exported with the annotations */
+  noteCount: number;
+  /** Whether any image or ink annotations were exported */
+  hasImages: boolean;
+  /** Each formatted annotation by key, in page order (for sync) */
+  blocks: RenderedBlock[];
+}
+
+/** Outcome of exporting items to a folder, one file per item */
+export interface FolderExportResult {
+  written: number;
+  /** Not written because the file existed (skip collision strategy) */
+  skipped: number;
+  /** Items without supported attachments or annotations */
+  empty: number;
+  failed: number;
+  annotationCount: number;
 }
 
 interface BatchGenerateResult {
@@ -42,27 +121,308 @@ export class Exporter {
   static async exportItems(
     items: Zotero.Item[],
     format: ExportFormat = "md",
+    options: ExportOptions = {},
   ): Promise<void> {
     for (const item of items) {
-      await this.exportItem(item, format);
+      await this.exportItem(item, format, options);
     }
   }
 
+  /**
+   * Export annotations from multiple items into a folder chosen once,
+   * one file per item named by the filename pattern. Progress and a
+   * summary are shown in a single progress window.
+   */
+  static async exportItemsToFolder(
+    items: Zotero.Item[],
+    format: ExportFormat = "md",
+    options: ExportOptions = {},
+  ): Promise<void> {
+    const directory = await this.promptFolder();
+    if (!directory) return;
+
+    const progress = new ztoolkit.ProgressWindow(addon.data.config.addonName, {
+      closeOnClick: false,
+      closeTime: -1,
+    })
+      .createLine({
+        text: `Exporting ${items.length} items...`,
+        type: "default",
+        progress: 0,
+      })
+      .show();
+
+    const result = await this.writeItemsToFolder(
+      items,
+      format,
+      directory,
+      options,
+      (done) =>
+        progress.changeLine({
+          text: `Exported ${done} of ${items.length} items`,
+          progress: (done / items.length) * 100,
+        }),
+    );
+
+    progress.changeLine({
+      text: this.describeFolderExport(result, directory),
+      type: result.written > 0 ? "success" : "fail",
+      progress: 100,
+    });
+    progress.startCloseTimer(8000);
+  }
+
+  /**
+   * Write one file per item into a directory, applying the filename
+   * pattern and collision strategy. Items are processed quietly; failures
+   * are logged and counted.
+   */
+  static async writeItemsToFolder(
+    items: Zotero.Item[],
+    format: ExportFormat,
+    directory: string,
+    options: ExportOptions = {},
+    onProgress?: (done: number) => void,
+  ): Promise<FolderExportResult> {
+    const { extension } = this.resolveFormat(format);
+    const result: FolderExportResult = {
+      written: 0,
+      skipped: 0,
+      empty: 0,
+      failed: 0,
+      annotationCount: 0,
+    };
+
+    await IOUtils.makeDirectory(directory, { ignoreExisting: true });
+
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i];
+      try {
+        const generated = await this.generateContent(item, format, {
+          ...options,
+          quiet: true,
+        });
+        if (!generated) {
+          result.empty++;
+          continue;
+        }
+
+        const parentItem = item.isRegularItem()
+          ? item
+          : item.parentItemID
+            ? await Zotero.Items.getAsync(item.parentItemID)
+            : null;
+        const path = await FilenamePattern.resolveCollision(
+          PathUtils.join(
+            directory,
+            FilenamePattern.build(parentItem || item, extension),
+          ),
+        );
+        if (!path) {
+          result.skipped++;
+          continue;
+        }
+
+        // Re-render with the destination known so images can be written next to it
+        const content = generated.hasImages
+          ? ((await this.generateContent(item, format, {
+              ...options,
+              quiet: true,
+              outputPath: path,
+            })) ?? generated).content
+          : generated.content;
+
+        await Zotero.File.putContentsAsync(path, content);
+        result.written++;
+        result.annotationCount += generated.annotationCount;
+      } catch (e) {
+        ztoolkit.log("Error exporting item to folder:", item.key, e);
+        result.failed++;
+      } finally {
+        onProgress?.(i + 1);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Export a collection into one file, with a heading per (sub)collection
+   * at its depth and its items' annotations nested below it.
+   */
+  static async exportCollection(
+    collection: Zotero.Collection,
+    format: ExportFormat = "md",
+    recursive: boolean = false,
+    options: ExportOptions = {},
+  ): Promise<void> {
+    const outputFormat = this.resolveFormat(format);
+    const savePath = await this.promptSaveLocation(
+      FilenamePattern.sanitize(collection.name) + outputFormat.extension,
+      format,
+    );
+    if (!savePath) return;
+
+    const { content, annotationCount: totalAnnotations } =
+      await this.renderCollection(
+        CollectionTree.build(collection, recursive),
+        format,
+        { ...options, quiet: true, outputPath: savePath },
+      );
+
+    if (totalAnnotations === 0) {
+      new ztoolkit.ProgressWindow(addon.data.config.addonName)
+        .createLine({
+          text: "No annotations found",
+          type: "fail",
+        })
+        .show();
+      return;
+    }
+
+    await Zotero.File.putContentsAsync(savePath, content);
+    new ztoolkit.ProgressWindow(addon.data.config.addonName)
+      .createLine({
+        text: `Exported ${totalAnnotations} annotations to ${savePath}`,
+        type: "success",
+      })
+      .show();
+  }
+
+  /**
+   * Export every annotation with a tag in a library into one file, one
+   * item heading after another.
+   */
+  static async exportTag(
+    libraryID: number,
+    tag: string,
+    format: ExportFormat = "md",
+    options: ExportOptions = {},
+  ): Promise<void> {
+    await this.exportBatch(
+      () => TagItems.getItems(libraryID, tag),
+      tag,
+      format,
+      this.tagOptions(tag, options),
+      `No annotations tagged "${tag}" found`,
+    );
+  }
+
+  /**
+   * Export the annotations of all items matching a saved search into one
+   * file, one item heading after another.
+   */
+  static async exportSavedSearch(
+    search: SavedSearch,
+    format: ExportFormat = "md",
+    options: ExportOptions = {},
+  ): Promise<void> {
+    await this.exportBatch(
+      () => SavedSearches.getItems(search),
+      search.name,
+      format,
+      options,
+      "No annotations found",
+    );
+  }
+
+  /**
+   * Options of a tag export: only annotations with the tag, narrowed by any
+   * other filter, and no child notes.
+   */
+  static tagOptions(tag: string, options: ExportOptions = {}): ExportOptions {
+    const { filter = {} } = options;
+    return {
+      ...options,
+      includeNotes: false,
+      filter: { ...filter, allTags: [...(filter.allTags ?? []), tag] },
+    };
+  }
+
+  /**
+   * Export a collection as a directory tree mirroring its subcollections,
+   * one file per item.
+   */
+  static async exportCollectionTree(
+    collection: Zotero.Collection,
+    format: ExportFormat = "md",
+    options: ExportOptions = {},
+  ): Promise<void> {
+    const directory = await this.promptFolder();
+    if (!directory) return;
+
+    const nodes = CollectionTree.flatten(CollectionTree.build(collection, true));
+    const itemCount = nodes.reduce((n, node) => n + node.items.length, 0);
+    const total: FolderExportResult = {
+      written: 0,
+      skipped: 0,
+      empty: 0,
+      failed: 0,
+      annotationCount: 0,
+    };
+
+    const progress = new ztoolkit.ProgressWindow(addon.data.config.addonName, {
+      closeOnClick: false,
+      closeTime: -1,
+    })
+      .createLine({
+        text: `Exporting ${itemCount} items...`,
+        type: "default",
+        progress: 0,
+      })
+      .show();
+
+    let done = 0;
+    for (const node of nodes) {
+      const result = await this.writeItemsToFolder(
+        node.items,
+        format,
+        this.collectionDirectory(directory, node),
+        options,
+        (n) =>
+          progress.changeLine({
+            text: `Exported ${done + n} of ${itemCount} items`,
+            progress: ((done + n) / itemCount) * 100,
+          }),
+      );
+      done += node.items.length;
+      for (const key of Object.keys(total) as Array<keyof FolderExportResult>) {
+        total[key] += result[key];
+      }
+    }
+
+    progress.changeLine({
+      text: this.describeFolderExport(
+        total,
+        this.collectionDirectory(directory, nodes[0]),
+      ),
+      type: total.written > 0 ? "success" : "fail",
+      progress: 100,
+    });
+    progress.startCloseTimer(8000);
+  }
+
   /**
    * Copy annotations from multiple items to clipboard.
    */
   static async copyItems(
     items: Zotero.Item[],
     format: ExportFormat = "md",
+    options: ExportOptions = {},
   ): Promise<void> {
     let allContent = "";
     let totalAnnotations = 0;
+    let totalNotes = 0;
 
     for (const item of items) {
-      const result = await this.generateContent(item, format);
+      const result = await this.generateContent(item, format, {
+        ...options,
+        inlineImages: true,
+      });
       if (result) {
         allContent += result.content;
         totalAnnotations += result.annotationCount;
+        totalNotes += result.noteCount;
         // Add separator between items if multiple
         if (items.length > 1) {
           allContent += "\n";
@@ -70,10 +430,10 @@ export class Exporter {
       }
     }
 
-    if (totalAnnotations === 0) {
+    if (!allContent) {
       new ztoolkit.ProgressWindow(addon.data.config.addonName)
         .createLine({
-          text: "No annotations found",
+          text: "No annotations or notes found",
           type: "fail",
         })
         .show();
@@ -85,10 +445,10 @@ export class Exporter {
       .addText(allContent, "text/plain")
       .copy();
 
-    const formatLabel = format === "org" ? "org-mode" : "Markdown";
+    const formatLabel = this.resolveFormat(format).label;
     new ztoolkit.ProgressWindow(addon.data.config.addonName)
       .createLine({
-        text: `Copied ${totalAnnotations} annotations as ${formatLabel}`,
+        text: `Copied ${this.describeCount(totalAnnotations, totalNotes)} as ${formatLabel}`,
         type: "success",
       })
       .show();
@@ -100,11 +460,12 @@ export class Exporter {
   static async exportItem(
     item: Zotero.Item,
     format: ExportFormat = "md",
+    options: ExportOptions = {},
   ): Promise<void> {
-    const result = await this.generateContent(item, format);
+    const result = await this.generateContent(item, format, options);
 
-    if (!result || result.annotationCount === 0) {
-      return; // Error already shown by generateContent
+    if (!result) {
+      return; // generateContent has shown why
     }
 
     // Get parent item for filename
@@ -115,14 +476,25 @@ export class Exporter {
         : null;
 
     // Prompt for save location
-    const defaultFilename = this.generateFilename(parentItem || item, format);
+    const defaultFilename = await this.suggestFilename(
+      parentItem || item,
+      format,
+    );
     const savePath = await this.promptSaveLocation(defaultFilename, format);
 
     if (savePath) {
-      await Zotero.File.putContentsAsync(savePath, result.content);
+      // Re-render with the destination known so images can be written next to it
+      const content = result.hasImages
+        ? ((await this.generateContent(item, format, {
+            ...options,
+            outputPath: savePath,
+          })) ?? result).content
+        : result.content;
+
+      await Zotero.File.putContentsAsync(savePath, content);
       new ztoolkit.ProgressWindow(addon.data.config.addonName)
         .createLine({
-          text: `Exported ${result.annotationCount} annotations to ${savePath}`,
+          text: `Exported ${this.describeCount(result.annotationCount, result.noteCount)} to ${savePath}`,
           type: "success",
         })
         .show();
@@ -130,35 +502,176 @@ export class Exporter {
   }
 
   /**
-   * Generate content for an item's annotations.
-   * Returns null if no supported attachments (PDF/EPUB) found.
+   * Sync annotations from multiple items into notes files, one file per
+   * item, preserving anything the user wrote between annotation blocks.
    */
-  static async generateContent(
+  static async syncItems(
+    items: Zotero.Item[],
+    format: ExportFormat = "md",
+    options: ExportOptions = {},
+  ): Promise<void> {
+    for (const item of items) {
+      await this.syncItem(item, format, options);
+    }
+  }
+
+  /**
+   * Sync an item's annotations into a file chosen by the user.
+   * A new file is written in full, with key markers for later syncs.
+   */
+  static async syncItem(
     item: Zotero.Item,
     format: ExportFormat = "md",
-  ): Promise<GenerateResult | null> {
-    // Get PDF and EPUB attachment(s)
-    const attachments: Zotero.Item[] = [];
+    options: ExportOptions = {},
+  ): Promise<void> {
+    const result = await this.generateContent(item, format, options);
 
-    if (item.isPDFAttachment?.() || item.isEPUBAttachment?.()) {
-      attachments.push(item);
-    } else if (item.isRegularItem()) {
-      const attachmentIDs = item.getAttachments();
-      for (const id of attachmentIDs) {
-        const att = await Zotero.Items.getAsync(id);
-        if (att && SUPPORTED_CONTENT_TYPES.includes(att.attachmentContentType)) {
-          attachments.push(att);
-        }
-      }
+    if (!result) {
+      return; // generateContent has shown why
     }
 
-    if (attachments.length === 0) {
+    const parentItem = item.isRegularItem()
+      ? item
+      : item.parentItemID
+        ? await Zotero.Items.getAsync(item.parentItemID)
+        : null;
+
+    // Sync targets the same file each time, so no collision handling
+    const defaultFilename = FilenamePattern.build(
+      parentItem || item,
+      this.resolveFormat(format).extension,
+    );
+    const savePath = await this.promptSaveLocation(
+      defaultFilename,
+      format,
+      `Sync ${this.resolveFormat(format).label} File`,
+    );
+    if (!savePath) return;
+
+    try {
+      const sync = await this.syncToFile(item, format, savePath, options);
+      if (!sync) return;
+
       new ztoolkit.ProgressWindow(addon.data.config.addonName)
         .createLine({
-          text: "No PDF or EPUB attachments found",
+          text: `Synced ${savePath}: ${sync.added} added, ${sync.updated} updated, ${sync.deleted} flagged as deleted`,
+          type: "success",
+        })
+        .show();
+    } catch (e) {
+      new ztoolkit.ProgressWindow(addon.data.config.addonName)
+        .createLine({
+          text: `Sync failed: ${e instanceof Error ? e.message : String(e)}`,
           type: "fail",
         })
         .show();
+    }
+  }
+
+  /**
+   * Write an item's annotations to a path, merging into the file if it
+   * already exists. If the item has no annotations left, the blocks in an
+   * existing file are all flagged as deleted; returns null if there is no
+   * file either. Throws if the existing file has the item's annotations but
+   * no key markers, since merging would duplicate them.
+   */
+  static async syncToFile(
+    item: Zotero.Item,
+    format: ExportFormat,
+    path: string,
+    options: ExportOptions = {},
+  ): Promise<SyncResult | null> {
+    const outputFormat = this.resolveFormat(format);
+    if (!SyncExport.supports(outputFormat)) {
+      throw new Error(`Format ${format} does not support sync export`);
+    }
+
+    const result = await this.generateContent(item, format, {
+      ...options,
+      outputPath: path,
+      embedKeys: true,
+    });
+
+    if (!(await IOUtils.exists(path))) {
+      if (!result) return null;
+      await Zotero.File.putContentsAsync(path, result.content);
+      return {
+        content: result.content,
+        added: result.annotationCount,
+        updated: 0,
+        deleted: 0,
+        unchanged: 0,
+      };
+    }
+
+    // All annotations removed: every block in the file is flagged
+    const blocks = result?.blocks ?? [];
+    const existing = (await Zotero.File.getContentsAsync(path)) as string;
+    if (
+      SyncExport.findKeys(outputFormat, existing).length === 0 &&
+      blocks.some((b) => existing.includes(b.key))
+    ) {
+      throw new Error(
+        `${path} was exported without annotation markers; export it again with sync to enable updates`,
+      );
+    }
+
+    const merged = SyncExport.merge(outputFormat, existing, blocks);
+    if (merged.content !== existing) {
+      await Zotero.File.putContentsAsync(path, merged.content);
+    }
+    return merged;
+  }
+
+  /**
+   * Generate content for an item's annotations and notes.
+   * Returns null if there is nothing to export: no supported attachments
+   * (PDF, EPUB, snapshot) or notes, or no annotations and no note text.
+   * Unless quiet, the reason is shown.
+   */
+  static async generateContent(
+    item: Zotero.Item,
+    format: ExportFormat = "md",
+    options: ExportOptions = {},
+  ): Promise<GenerateResult | null> {
+    const outputFormat = this.resolveFormat(format);
+    const groupByColor = options.groupByColor ?? getPref("groupByColor");
+    const groupByOutline = options.groupByOutline ?? getPref("groupByOutline");
+    const embedKeys =
+      (options.embedKeys ?? getPref("embedKeys")) &&
+      SyncExport.supports(outputFormat);
+    const tagStyle = getPref("tagStyle") as TagStyle;
+    const formatOptions: FormatOptions = {
+      templates: this.resolveTemplates(format, options.template),
+      colorLegend: ColorLegend.get(),
+      showColor: options.showColor ?? getPref("showColor"),
+      tagStyle,
+      linkStyle: getPref("linkStyle") as LinkStyle,
+      citations: options.citations ?? getPref("citations"),
+    };
+    const markers: BlockStyle | null = embedKeys
+      ? {
+          template: formatOptions.templates?.name ?? DEFAULT_TEMPLATE_NAME,
+          tagStyle,
+        }
+      : null;
+
+    const attachments = await this.getAttachments(item);
+    // A selected note is exported whether or not notes are included
+    const notes =
+      (item.isNote() || (options.includeNotes ?? getPref("includeNotes"))) &&
+      outputFormat.convertNote
+        ? await this.getNotes(item)
+        : [];
+    if (attachments.length === 0 && notes.length === 0) {
+      if (!options.quiet) {
+        new ztoolkit.ProgressWindow(addon.data.config.addonName)
+          .createLine({
+            text: "No PDF, EPUB or snapshot attachments found",
+            type: "fail",
+          })
+          .show();
+      }
       return null;
     }
 
@@ -166,67 +679,116 @@ export class Exporter {
     let content = "";
 
     // Get parent item for metadata
-    const parentItem = item.isRegularItem()
-      ? item
-      : item.parentItemID
-        ? await Zotero.Items.getAsync(item.parentItemID)
-        : null;
-
+    const parentItem = await this.getParentItem(item);
     if (parentItem) {
-      content +=
-        format === "org"
-          ? MetadataFormatter.format(parentItem)
-          : MarkdownMetadataFormatter.format(parentItem);
+      content += outputFormat.metadataFormatter.format(parentItem, formatOptions);
+      formatOptions.itemFields = MetadataFormatter.extractFields(parentItem);
     }
 
-    let totalAnnotations = 0;
+    const entries: AnnotationEntry[] = [];
+    formatOptions.images = new Map();
 
-    // Process each attachment
-    for (const attachment of attachments) {
-      const annotations =
-        attachment.getAnnotations() as unknown as ZoteroAnnotation[];
-      if (!annotations || annotations.length === 0) continue;
-
-      totalAnnotations += annotations.length;
-
-      // Sort by page and position
-      annotations.sort((a, b) => {
-        const pageA = parseInt(a.annotationPageLabel) || 0;
-        const pageB = parseInt(b.annotationPageLabel) || 0;
-        if (pageA !== pageB) return pageA - pageB;
-        return (a.annotationSortIndex || "").localeCompare(
-          b.annotationSortIndex || "",
-        );
+    // Collect annotations from each attachment
+    for (const { attachment, annotations } of this.collectAnnotations(
+      attachments,
+      options.filter,
+    )) {
+      const images = await AnnotationImages.resolve(attachment, annotations, {
+        outputPath: options.outputPath,
+        inline: options.inlineImages,
       });
+      for (const [key, image] of images) {
+        formatOptions.images.set(key, image);
+      }
+
+      for (const annotation of annotations) {
+        entries.push({
+          annotation,
+          attachment,
+          content: outputFormat.annotationFormatter.format(
+            annotation,
+            attachment.key,
+            attachment.libraryID,
+            attachment.attachmentContentType,
+            formatOptions,
+          ),
+        });
+      }
+    }
 
-      // Get data needed for formatting
-      const attachmentKey = attachment.key;
-      const libraryID = attachment.libraryID;
-      const contentType = attachment.attachmentContentType;
+    const totalAnnotations = entries.length;
+    const hasImages = entries.some((e) =>
+      AnnotationImages.isImageAnnotation(e.annotation),
+    );
 
-      for (const annot of annotations) {
-        if (format === "org") {
-          content += AnnotationFormatter.format(annot, attachmentKey, libraryID, contentType);
-        } else {
-          content += MarkdownFormatter.format(annot, attachmentKey, libraryID, contentType);
-        }
-        content += "\n";
+    // One sub-heading per attachment when annotations come from several
+    const sections = this.groupByAttachment(entries);
+    const byAttachment = sections.length > 1;
+    const level = byAttachment ? 4 : 3;
+    for (const section of sections) {
+      if (byAttachment) {
+        content += outputFormat.heading(
+          this.attachmentHeading(section.attachment, section.entries.length),
+          3,
+        );
+      }
+      const outline = groupByOutline
+        ? await this.loadOutline(section.attachment, options.quiet)
+        : [];
+      if (outline.length > 0) {
+        const contentType = section.attachment.attachmentContentType;
+        // Markdown has six heading levels; keep one for color groups
+        const groups = Outline.group(
+          outline,
+          section.entries,
+          (e) => Outline.locate(e.annotation, contentType),
+          7 - level - (groupByColor ? 1 : 0),
+        );
+        content += this.renderOutline(outputFormat, groups, level, {
+          groupByColor,
+          markers,
+        });
+      } else {
+        content += this.renderEntries(outputFormat, section.entries, level, {
+          groupByColor,
+          markers,
+        });
       }
     }
 
-    if (totalAnnotations === 0) {
-      new ztoolkit.ProgressWindow(addon.data.config.addonName)
-        .createLine({
-          text: "No annotations found",
-          type: "fail",
-        })
-        .show();
+    const noteTexts = notes
+      .map((note) => outputFormat.convertNote!(note.getNote(), 3))
+      .filter((text) => text);
+    if (noteTexts.length > 0) {
+      content += outputFormat.heading("Notes", 2);
+      for (const text of noteTexts) content += text + "\n\n";
+    }
+
+    if (totalAnnotations === 0 && noteTexts.length === 0) {
+      if (!options.quiet) {
+        new ztoolkit.ProgressWindow(addon.data.config.addonName)
+          .createLine({
+            text:
+              notes.length > 0
+                ? "No annotations or notes found"
+                : "No annotations found",
+            type: "fail",
+          })
+          .show();
+      }
       return null;
     }
 
     return {
       content,
       annotationCount: totalAnnotations,
+      noteCount: noteTexts.length,
+      hasImages,
+      blocks: entries.map((e) => ({
+        key: e.annotation.key,
+        content: e.content,
+        style: markers ?? undefined,
+      })),
     };
   }
 
@@ -247,6 +809,7 @@ export class Exporter {
     items: Zotero.Item[],
     format: ExportFormat = "md",
     citekeys?: string[],
+    options: ExportOptions = {},
   ): Promise<BatchGenerateResult | null> {
     const itemResults: BatchGenerateResult["items"] = [];
     let allContent = "";
@@ -254,9 +817,9 @@ export class Exporter {
 
     for (let i = 0; i < items.length; i++) {
       const item = items[i];
-      const result = await this.generateContent(item, format);
+      const result = await this.generateContent(item, format, options);
 
-      if (result && result.annotationCount > 0) {
+      if (result) {
         // Get title
         let title = "";
         try {
@@ -298,40 +861,441 @@ export class Exporter {
     };
   }
 
-  private static generateFilename(
+  /**
+   * PDF and EPUB attachments of an item, or the item itself if it is one.
+   */
+  static async getAttachments(item: Zotero.Item): Promise<Zotero.Item[]> {
+    if (isReaderAttachment(item)) {
+      return [item];
+    }
+
+    const attachments: Zotero.Item[] = [];
+    if (item.isRegularItem()) {
+      for (const id of item.getAttachments()) {
+        const att = await Zotero.Items.getAsync(id);
+        if (att && isReaderAttachment(att)) {
+          attachments.push(att);
+        }
+      }
+    }
+    return attachments;
+  }
+
+  /**
+   * Notes to export with an item: its child notes, or the note itself for
+   * a standalone note.
+   */
+  static async getNotes(item: Zotero.Item): Promise<Zotero.Item[]> {
+    if (item.isNote()) return [item];
+    const parentItem = await this.getParentItem(item);
+    if (!parentItem) return [];
+    return Zotero.Items.get(parentItem.getNotes()) as Zotero.Item[];
+  }
+
+  /**
+   * Annotations of each attachment in export order (sortOrder preference),
+   * optionally filtered. Attachments without (matching) annotations are
+   * left out.
+   */
+  static collectAnnotations(
+    attachments: Zotero.Item[],
+    filter?: AnnotationFilter,
+  ): AttachmentAnnotations[] {
+    const compare = this.annotationComparator(getPref("sortOrder") as SortOrder);
+    const result: AttachmentAnnotations[] = [];
+
+    for (const attachment of attachments) {
+      const annotations = AnnotationFilters.apply(
+        (attachment.getAnnotations() as unknown as ZoteroAnnotation[]) || [],
+        filter,
+      );
+      if (annotations.length === 0) continue;
+
+      result.push({ attachment, annotations: annotations.sort(compare) });
+    }
+    return result;
+  }
+
+  /**
+   * The regular item an export is about: the item itself, or the parent of
+   * an attachment (null for standalone attachments).
+   */
+  static async getParentItem(item: Zotero.Item): Promise<Zotero.Item | null> {
+    if (item.isRegularItem()) return item;
+    return item.parentItemID
+      ? ((await Zotero.Items.getAsync(item.parentItemID)) as Zotero.Item)
+      : null;
+  }
+
+  /**
+   * The default export format from preferences, if it is registered.
+   */
+  static defaultFormat(): ExportFormat {
+    const format = getPref("defaultFormat");
+    return FormatRegistry.has(format) ? format : "md";
+  }
+
+  /**
+   * Comparator for the sortOrder preference. Position sorts in document
+   * order (see annotationLocation.ts); the date orders fall back to
+   * position for ties.
+   */
+  private static annotationComparator(
+    order: SortOrder,
+  ): (a: ZoteroAnnotation, b: ZoteroAnnotation) => number {
+    const byPosition = AnnotationLocation.compare;
+
+    if (order !== "dateAdded" && order !== "dateModified") {
+      return byPosition;
+    }
+    return (a, b) =>
+      (a[order] || "").localeCompare(b[order] || "") || byPosition(a, b);
+  }
+
+  /**
+   * Split entries by attachment, keeping attachment order.
+   */
+  private static groupByAttachment(
+    entries: AnnotationEntry[],
+  ): Array<{ attachment: Zotero.Item; entries: AnnotationEntry[] }> {
+    const sections = new Map<
+      number,
+      { attachment: Zotero.Item; entries: AnnotationEntry[] }
+    >();
+    for (const entry of entries) {
+      const section = sections.get(entry.attachment.id);
+      if (section) {
+        section.entries.push(entry);
+      } else {
+        sections.set(entry.attachment.id, {
+          attachment: entry.attachment,
+          entries: [entry],
+        });
+      }
+    }
+    return Array.from(sections.values());
+  }
+
+  /**
+   * Attachment sub-heading: its title (or filename) and annotation count.
+   */
+  private static attachmentHeading(
+    attachment: Zotero.Item,
+    count: number,
+  ): string {
+    const name =
+      (attachment.getField("title") as string) ||
+      attachment.attachmentFilename ||
+      attachment.key;
+    return `${name} (${count} ${count === 1 ? "annotation" : "annotations"})`;
+  }
+
+  /**
+   * Annotations nested under outline headings, starting at a heading
+   * level; those before the first heading come first.
+   */
+  private static renderOutline(
+    outputFormat: OutputFormat,
+    groups: OutlineGroups<AnnotationEntry>,
+    level: number,
+    options: { groupByColor: boolean; markers: BlockStyle | null },
+  ): string {
+    let content = this.renderEntries(
+      outputFormat,
+      groups.unplaced,
+      level,
+      options,
+    );
+    for (const section of groups.sections) {
+      content += outputFormat.heading(section.title, level);
+      content += this.renderOutline(
+        outputFormat,
+        { unplaced: section.items, sections: section.children },
+        level + 1,
+        options,
+      );
+    }
+    return content;
+  }
+
+  /**
+   * Annotations in order, under a sub-heading per color (in legend order)
+   * when grouping by color.
+   */
+  private static renderEntries(
+    outputFormat: OutputFormat,
+    entries: AnnotationEntry[],
+    level: number,
+    options: { groupByColor: boolean; markers: BlockStyle | null },
+  ): string {
+    if (!options.groupByColor) {
+      return this.joinEntries(outputFormat, entries, options.markers);
+    }
+    let content = "";
+    const groups = ColorLegend.group(
+      entries,
+      (e) => e.annotation.annotationColor,
+    );
+    for (const group of groups) {
+      content += outputFormat.heading(group.label, level);
+      content += this.joinEntries(
+        outputFormat,
+        group.entries,
+        options.markers,
+      );
+    }
+    return content;
+  }
+
+  /**
+   * Join formatted annotations in order, each followed by a blank line and
+   * wrapped in key markers recording their style if given.
+   */
+  private static joinEntries(
+    outputFormat: OutputFormat,
+    entries: AnnotationEntry[],
+    markers: BlockStyle | null,
+  ): string {
+    let content = "";
+    for (const { annotation, content: text } of entries) {
+      content += markers
+        ? SyncExport.wrap(outputFormat, annotation.key, text, markers)
+        : text;
+      content += "\n";
+    }
+    return content;
+  }
+
+  /**
+   * Look up a registered output format, failing loudly on unknown ids.
+   */
+  private static resolveFormat(format: ExportFormat): OutputFormat {
+    const outputFormat = FormatRegistry.get(format);
+    if (!outputFormat) {
+      throw new Error(`Unknown export format: ${format}`);
+    }
+    return outputFormat;
+  }
+
+  /**
+   * Resolve the named template set for a format.
+   * Formats without templates ignore the name; unknown names are an error.
+   */
+  private static resolveTemplates(
+    format: ExportFormat,
+    name?: string,
+  ): FormatOptions["templates"] {
+    if (!this.resolveFormat(format).defaultTemplates) return undefined;
+
+    const templates = TemplateStore.get(format, name);
+    if (!templates) {
+      throw new Error(`Unknown template "${name}" for format ${format}`);
+    }
+    return templates;
+  }
+
+  /**
+   * Suggested filename for the save dialog. With the suffix collision
+   * strategy, a name already taken in the default folder is made unique;
+   * otherwise the dialog's own overwrite prompt applies.
+   */
+  private static async suggestFilename(
     item: Zotero.Item,
-    format: ExportFormat = "md",
+    format: ExportFormat,
+  ): Promise<string> {
+    const filename = FilenamePattern.build(
+      item,
+      this.resolveFormat(format).extension,
+    );
+    const directory = getPref("exportDirectory");
+    if (!directory || getPref("filenameCollision") !== "suffix") {
+      return filename;
+    }
+
+    const path = await FilenamePattern.resolveCollision(
+      PathUtils.join(directory, filename),
+      "suffix",
+    );
+    return path ? PathUtils.filename(path) : filename;
+  }
+
+  /**
+   * Directory for a collection node: one sanitized folder per collection
+   * name in its path.
+   */
+  private static collectionDirectory(
+    root: string,
+    node: CollectionNode,
   ): string {
-    let title = "annotations";
+    return PathUtils.join(
+      root,
+      ...node.path.map((name) => FilenamePattern.sanitize(name)),
+    );
+  }
+
+  /**
+   * Outline of an attachment for groupByOutline. A file whose outline
+   * cannot be read (e.g. a PDF that needs a password) is exported without
+   * sections, and the user is told why.
+   */
+  private static async loadOutline(
+    attachment: Zotero.Item,
+    quiet?: boolean,
+  ): Promise<OutlineEntry[]> {
     try {
-      title = (item.getField("title") as string) || "annotations";
-    } catch {
-      // Use default
+      return await Outline.load(attachment);
+    } catch (e) {
+      ztoolkit.log("Could not read outline of", attachment.key, e);
+      if (!quiet) {
+        const title = attachment.getField("title") || attachment.key;
+        new ztoolkit.ProgressWindow(addon.data.config.addonName)
+          .createLine({
+            text: `No sections for "${title}": ${e instanceof Error ? e.message : String(e)}`,
+            type: "fail",
+          })
+          .show();
+      }
+      return [];
     }
-    // Sanitize filename: remove special chars, limit length
-    const safeTitle = title
-      .replace(/[^a-zA-Z0-9\-_\s]/g, "")
-      .replace(/\s+/g, "_")
-      .substring(0, 50);
-    const extension = format === "org" ? ".org" : ".md";
-    return `${safeTitle}${extension}`;
+  }
+
+  /**
+   * A collection's heading at its depth, its items' content with their
+   * headings moved below it, then its subcollections. Collections without
+   * annotations, in them or below, are left out.
+   */
+  private static async renderCollection(
+    node: CollectionNode,
+    format: ExportFormat,
+    options: ExportOptions,
+  ): Promise<{ content: string; annotationCount: number }> {
+    const outputFormat = this.resolveFormat(format);
+    const depth = node.path.length;
+    let content = "";
+    let annotationCount = 0;
+
+    for (const item of node.items) {
+      const result = await this.generateContent(item, format, options);
+      if (result) {
+        content +=
+          (outputFormat.shiftHeadings?.(result.content, depth) ??
+            result.content) + "\n";
+        annotationCount += result.annotationCount;
+      }
+    }
+    for (const child of node.children) {
+      const sub = await this.renderCollection(child, format, options);
+      content += sub.content;
+      annotationCount += sub.annotationCount;
+    }
+
+    if (!content) return { content, annotationCount };
+    // Formats that cannot nest get a flat heading with the full path
+    const heading = outputFormat.shiftHeadings
+      ? outputFormat.heading(node.collection.name, depth)
+      : outputFormat.heading(node.path.join(" / "), 1);
+    return { content: heading + content, annotationCount };
+  }
+
+  /**
+   * Prompt for a file named after the export and write the batch content
+   * of the items into it. Items are only looked up once a file is chosen.
+   */
+  private static async exportBatch(
+    getItems: () => Promise<Zotero.Item[]>,
+    name: string,
+    format: ExportFormat,
+    options: ExportOptions,
+    emptyMessage: string,
+  ): Promise<void> {
+    const { extension } = this.resolveFormat(format);
+    const savePath = await this.promptSaveLocation(
+      FilenamePattern.sanitize(name) + extension,
+      format,
+    );
+    if (!savePath) return;
+
+    const result = await this.generateBatchContent(
+      await getItems(),
+      format,
+      undefined,
+      { ...options, quiet: true, outputPath: savePath },
+    );
+
+    if (!result) {
+      new ztoolkit.ProgressWindow(addon.data.config.addonName)
+        .createLine({ text: emptyMessage, type: "fail" })
+        .show();
+      return;
+    }
+
+    await Zotero.File.putContentsAsync(savePath, result.content);
+    new ztoolkit.ProgressWindow(addon.data.config.addonName)
+      .createLine({
+        text: `Exported ${result.totalAnnotations} annotations from ${result.itemCount} items to ${savePath}`,
+        type: "success",
+      })
+      .show();
+  }
+
+  /**
+   * "3 annotations", "2 notes" or "3 annotations and 2 notes".
+   */
+  private static describeCount(annotations: number, notes: number): string {
+    const parts = [];
+    if (annotations || !notes) parts.push(`${annotations} annotations`);
+    if (notes) parts.push(`${notes} notes`);
+    return parts.join(" and ");
+  }
+
+  /**
+   * One-line summary of a folder export for the progress window.
+   */
+  private static describeFolderExport(
+    result: FolderExportResult,
+    directory: string,
+  ): string {
+    const parts = [
+      `${result.written} files written to ${directory}`,
+      `${result.annotationCount} annotations`,
+    ];
+    if (result.skipped) parts.push(`${result.skipped} skipped (file exists)`);
+    if (result.empty) parts.push(`${result.empty} without annotations`);
+    if (result.failed) parts.push(`${result.failed} failed`);
+    return parts.join(", ");
+  }
+
+  private static async promptFolder(
+    title: string = "Export to Folder",
+  ): Promise<string | null> {
+    const path = await new ztoolkit.FilePicker(
+      title,
+      "folder",
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      getPref("exportDirectory") || undefined,
+    ).open();
+    return path || null;
   }
 
   private static async promptSaveLocation(
     defaultFilename: string,
     format: ExportFormat = "md",
+    title?: string,
   ): Promise<string | null> {
-    const extension = format === "org" ? ".org" : ".md";
-    const filterLabel =
-      format === "org" ? "Org Files (*.org)" : "Markdown Files (*.md)";
-    const filterPattern = format === "org" ? "*.org" : "*.md";
-    const dialogTitle = format === "org" ? "Save Org File" : "Save Markdown File";
+    const { extension, filter, label } = this.resolveFormat(format);
+    const dialogTitle = title || `Save ${label} File`;
 
     const path = await new ztoolkit.FilePicker(
       dialogTitle,
       "save",
-      [[filterLabel, filterPattern]],
+      [filter],
       defaultFilename,
+      undefined,
+      undefined,
+      getPref("exportDirectory") || undefined,
     ).open();
 
     if (path) {
@@ -0,0 +1,134 @@
+/**
+ * Filenames for exported files.
+ *
+ * Names are built from the filenamePattern preference with tokens:
+ * {citekey} (item key if none), {title}, {firstAuthor}, {year}, {itemKey}.
+ * Unknown tokens are left as-is. Sanitizing keeps non-ASCII letters and only
+ * removes characters that are invalid in filenames on some platform.
+ *
+ * When the target file exists, the filenameCollision preference decides:
+ * - overwrite: replace it
+ * - suffix: use the first free "name-2.ext", "name-3.ext", ...
+ * - skip: do not write
+ */
+
+import { getPref } from "../utils/prefs";
+import { MetadataFormatter } from "./metadataFormatter";
+
+export type CollisionStrategy = "overwrite" | "suffix" | "skip";
+
+/** Used when a pattern expands to nothing usable */
+const FALLBACK_NAME = "annotations";
+
+/** Maximum filename length in characters, excluding extension */
+const MAX_LENGTH = 100;
+
+// Invalid on Windows, macOS or Linux, plus control characters
+const INVALID_CHARS = /[\p{Cc}<>:"/\\|?*]/gu;
+
+// Device names reserved on Windows, with or without extension
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)(\..*)?$/i;
+
+export class FilenamePattern {
+  /**
+   * Token values for an item. Missing fields are empty strings.
+   */
+  static tokens(item: Zotero.Item): Record<string, string> {
+    const fields = MetadataFormatter.extractFields(item);
+    let firstAuthor = "";
+    try {
+      const creators = item.getCreators() as unknown as Array<{
+        creatorType?: string;
+        lastName?: string;
+        name?: string;
+      }>;
+      const creator =
+        creators.find((c) => c.creatorType === "author") || creators[0];
+      firstAuthor = creator?.lastName || creator?.name || "";
+    } catch {
+      // Attachments and notes have no creators
+    }
+
+    return {
+      citekey: fields.citekey || item.key,
+      title: fields.title || "",
+      firstAuthor,
+      year: fields.date?.match(/\b\d{4}\b/)?.[0] || "",
+      itemKey: item.key,
+    };
+  }
+
+  /**
+   * Replace {token} placeholders in a pattern.
+   */
+  static expand(pattern: string, tokens: Record<string, string>): string {
+    return pattern.replace(
+      /\{(\w+)\}/g,
+      (match, token: string) => tokens[token] ?? match,
+    );
+  }
+
+  /**
+   * Make a string safe to use as a filename on any platform.
+   * Whitespace becomes underscores; letters in any script are kept.
+   */
+  static sanitize(name: string, maxLength: number = MAX_LENGTH): string {
+    let safe = name
+      .normalize("NFC")
+      .replace(INVALID_CHARS, "")
+      .replace(/\s+/g, "_")
+      .replace(/^[._]+/, "");
+
+    // Truncate by code point so surrogate pairs are not split
+    safe = Array.from(safe).slice(0, maxLength).join("");
+    // Windows drops trailing dots; trailing underscores are leftover spaces
+    safe = safe.replace(/[._]+$/, "");
+
+    if (RESERVED_NAMES.test(safe)) {
+      safe = `_${safe}`;
+    }
+    return safe || FALLBACK_NAME;
+  }
+
+  /**
+   * Filename (with extension) for an item's export.
+   */
+  static build(
+    item: Zotero.Item,
+    extension: string,
+    pattern: string = getPref("filenamePattern") || "{title}",
+  ): string {
+    return this.sanitize(this.expand(pattern, this.tokens(item))) + extension;
+  }
+
+  /**
+   * Apply a collision strategy to a target path.
+   * Returns the path to write, or null if the file should be skipped.
+   */
+  static async resolveCollision(
+    path: string,
+    strategy: CollisionStrategy = getPref(
+      "filenameCollision",
+    ) as CollisionStrategy,
+  ): Promise<string | null> {
+    if (strategy === "overwrite" || !(await IOUtils.exists(path))) {
+      return path;
+    }
+    if (strategy === "skip") {
+      return null;
+    }
+
+    const directory = PathUtils.parent(path) || "";
+    const filename = PathUtils.filename(path);
+    const dot = filename.lastIndexOf(".");
+    const base = dot > 0 ? filename.slice(0, dot) : filename;
+    const extension = dot > 0 ? filename.slice(dot) : "";
+
+    for (let n = 2; ; n++) {
+      const candidate = PathUtils.join(directory, `${base}-${n}${extension}`);
+      if (!(await IOUtils.exists(candidate))) {
+        return candidate;
+      }
+    }
+  }
+}
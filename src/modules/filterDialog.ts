@@ -0,0 +1,186 @@
+/**
+ * Dialog for choosing an annotation filter before a context-menu export.
+ * List fields take comma-separated values; see annotationFilter.ts. When
+ * the selected items have several attachments, they can be picked here.
+ */
+
+import {
+  ANNOTATION_TYPES,
+  AnnotationFilter,
+  parsePageRanges,
+} from "./annotationFilter";
+import { Exporter } from "./exporter";
+
+const TEXT_FIELDS = [
+  { key: "tags", label: "Tags (any of)" },
+  { key: "excludeTags", label: "Exclude tags" },
+  { key: "colors", label: "Colors (hex or legend label)" },
+  { key: "excludeColors", label: "Exclude colors" },
+  { key: "pages", label: "Pages (e.g. 1-10, 15)" },
+  { key: "authors", label: "Annotation authors" },
+] as const;
+
+function splitList(value: unknown): string[] | undefined {
+  const list = String(value || "")
+    .split(",")
+    .map((v) => v.trim())
+    .filter((v) => v);
+  return list.length > 0 ? list : undefined;
+}
+
+export class FilterDialog {
+  /**
+   * Ask for a filter for exporting the given items. Returns null if the
+   * dialog was cancelled or the input is invalid.
+   */
+  static async open(
+    items: Zotero.Item[] = [],
+  ): Promise<AnnotationFilter | null> {
+    const attachments: Zotero.Item[] = [];
+    for (const item of items) {
+      attachments.push(...(await Exporter.getAttachments(item)));
+    }
+    const pickAttachments = attachments.length > 1;
+
+    const dialogData: Record<string, any> = { modifiedSince: "" };
+    const rows =
+      TEXT_FIELDS.length +
+      ANNOTATION_TYPES.length +
+      2 +
+      (pickAttachments ? attachments.length + 1 : 0);
+    const dialog = new ztoolkit.Dialog(rows, 2);
+    let row = 0;
+
+    for (const field of TEXT_FIELDS) {
+      dialogData[field.key] = "";
+      this.addLabel(dialog, row, field.label);
+      dialog.addCell(row++, 1, {
+        tag: "input",
+        namespace: "html",
+        attributes: {
+          type: "text",
+          "data-bind": field.key,
+          "data-prop": "value",
+        },
+      });
+    }
+
+    this.addLabel(dialog, row, "Modified since");
+    dialog.addCell(row++, 1, {
+      tag: "input",
+      namespace: "html",
+      attributes: {
+        type: "date",
+        "data-bind": "modifiedSince",
+        "data-prop": "value",
+      },
+    });
+
+    this.addLabel(dialog, row++, "Types (none checked: all)");
+    for (const type of ANNOTATION_TYPES) {
+      dialogData[`type-${type}`] = false;
+      this.addCheckbox(dialog, row++, `type-${type}`, type);
+    }
+
+    if (pickAttachments) {
+      this.addLabel(dialog, row++, "Attachments");
+      for (const attachment of attachments) {
+        dialogData[`attachment-${attachment.key}`] = true;
+        this.addCheckbox(
+          dialog,
+          row++,
+          `attachment-${attachment.key}`,
+          (attachment.getField("title") as string) ||
+            attachment.attachmentFilename ||
+            attachment.key,
+        );
+      }
+    }
+
+    dialog
+      .addButton("Export", "export")
+      .addButton("Cancel", "cancel")
+      .setDialogData(dialogData)
+      .open("Filter Annotations", { centerscreen: true, fitContent: true });
+
+    await dialogData.unloadLock?.promise;
+    if (dialogData._lastButtonId !== "export") return null;
+
+    const pages = String(dialogData.pages || "").trim();
+    if (pages && !parsePageRanges(pages)) {
+      new ztoolkit.ProgressWindow(addon.data.config.addonName)
+        .createLine({
+          text: `Invalid page ranges: ${pages}`,
+          type: "fail",
+        })
+        .show();
+      return null;
+    }
+
+    const selected = attachments
+      .filter((a) => dialogData[`attachment-${a.key}`])
+      .map((a) => a.key);
+    if (pickAttachments && selected.length === 0) {
+      new ztoolkit.ProgressWindow(addon.data.config.addonName)
+        .createLine({ text: "No attachments selected", type: "fail" })
+        .show();
+      return null;
+    }
+
+    return {
+      tags: splitList(dialogData.tags),
+      excludeTags: splitList(dialogData.excludeTags),
+      colors: splitList(dialogData.colors),
+      excludeColors: splitList(dialogData.excludeColors),
+      types: ANNOTATION_TYPES.filter((type) => dialogData[`type-${type}`]),
+      pages: pages || undefined,
+      // Date inputs give YYYY-MM-DD, read as local midnight
+      modifiedSince: dialogData.modifiedSince
+        ? new Date(`${dialogData.modifiedSince}T00:00:00`).toISOString()
+        : undefined,
+      authors: splitList(dialogData.authors),
+      // Only restrict when some attachments were unchecked
+      attachments: selected.length < attachments.length ? selected : undefined,
+    };
+  }
+
+  private static addCheckbox(
+    dialog: InstanceType<typeof ztoolkit.Dialog>,
+    row: number,
+    key: string,
+    text: string,
+  ): void {
+    dialog.addCell(row, 1, {
+      tag: "label",
+      namespace: "html",
+      children: [
+        {
+          tag: "input",
+          namespace: "html",
+          attributes: {
+            type: "checkbox",
+            "data-bind": key,
+            "data-prop": "checked",
+          },
+        },
+        {
+          tag: "span",
+          namespace: "html",
+          properties: { textContent: text },
+        },
+      ],
+    });
+  }
+
+  private static addLabel(
+    dialog: InstanceType<typeof ztoolkit.Dialog>,
+    row: number,
+    text: string,
+  ): void {
+    dialog.addCell(row, 0, {
+      tag: "label",
+      namespace: "html",
+      properties: { textContent: text },
+    });
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Registry of export output formats.
+ *
+ * Each format bundles its formatters with the file details the exporter,
+ * context menu and HTTP API need. Built-in formats:
+ * - md: Markdown with YAML frontmatter
+ * - org: Org-mode with property drawer
+ */
+
+import {
+  AnnotationFormatter,
+  FormatOptions,
+  ZoteroAnnotation,
+} from "./annotationFormatter";
+import {
+  MARKDOWN_DEFAULT_TEMPLATES,
+  ORG_DEFAULT_TEMPLATES,
+  TemplateSet,
+} from "./defaultTemplates";
+import { MetadataFormatter } from "./metadataFormatter";
+import { MarkdownFormatter } from "./markdownFormatter";
+import { MarkdownMetadataFormatter } from "./markdownMetadataFormatter";
+import { NoteConverter } from "./noteConverter";
+import {
+  ImportSyntax,
+  MARKDOWN_IMPORT_SYNTAX,
+  ORG_IMPORT_SYNTAX,
+} from "./syncImport";
+
+export interface MetadataFormatterLike {
+  format(item: Zotero.Item, options?: FormatOptions): string;
+}
+
+export interface AnnotationFormatterLike {
+  format(
+    annotation: ZoteroAnnotation,
+    attachmentKey: string,
+    libraryID: number,
+    contentType?: string,
+    options?: FormatOptions,
+  ): string;
+}
+
+export interface OutputFormat {
+  /** Identifier used in API requests and menu IDs */
+  id: string;
+  /** Human-readable name shown in menus and messages */
+  label: string;
+  /** File extension including the leading dot */
+  extension: string;
+  /** File picker filter as [label, pattern] */
+  filter: [string, string];
+  metadataFormatter: MetadataFormatterLike;
+  annotationFormatter: AnnotationFormatterLike;
+  /** Render a section heading at the given level (1 = document title) */
+  heading(text: string, level: number): string;
+  /**
+   * Demote every heading in rendered content by some levels, to nest it
+   * under another heading; formats without it are not nested
+   */
+  shiftHeadings?(text: string, levels: number): string;
+  /** Line comment delimiters; formats without them cannot be synced */
+  commentSyntax?: { start: string; end: string };
+  /**
+   * How exported annotation blocks are read back; formats without it
+   * cannot be imported
+   */
+  importSyntax?: ImportSyntax;
+  /** Built-in templates; formats without them cannot use user templates */
+  defaultTemplates?: TemplateSet;
+  /**
+   * Convert Zotero note HTML, with <h1> at the given heading level;
+   * formats without it leave notes out
+   */
+  convertNote?(html: string, headingLevel: number): string;
+}
+
+const formats = new Map<string, OutputFormat>();
+
+/**
+ * Demote heading lines (a run of the marker, then a space) by some levels,
+ * at most to maxLevel. Lines inside ``` or ~~~ fences are left alone when
+ * the format has them.
+ */
+function shiftHeadings(
+  text: string,
+  levels: number,
+  marker: string,
+  { maxLevel = Infinity, fences = false } = {},
+): string {
+  const heading = new RegExp(`^\\${marker}+(?= )`);
+  let fenced = false;
+  return text
+    .split("\n")
+    .map((line) => {
+      if (fences && /^(```|~~~)/.test(line)) fenced = !fenced;
+      if (fenced) return line;
+      return line.replace(heading, (run) =>
+        marker.repeat(Math.min(run.length + levels, maxLevel)),
+      );
+    })
+    .join("\n");
+}
+
+export class FormatRegistry {
+  /**
+   * Register an output format. Re-registering an id replaces it.
+   */
+  static register(format: OutputFormat): void {
+    formats.set(format.id, format);
+  }
+
+  /**
+   * Get a registered format by id.
+   */
+  static get(id: string): OutputFormat | undefined {
+    return formats.get(id);
+  }
+
+  /**
+   * Check whether a value is the id of a registered format.
+   */
+  static has(id: unknown): id is string {
+    return typeof id === "string" && formats.has(id);
+  }
+
+  /**
+   * All registered formats, in registration order.
+   */
+  static getAll(): OutputFormat[] {
+    return Array.from(formats.values());
+  }
+}
+
+FormatRegistry.register({
+  id: "md",
+  label: "Markdown",
+  extension: ".md",
+  filter: ["Markdown Files (*.md)", "*.md"],
+  metadataFormatter: MarkdownMetadataFormatter,
+  annotationFormatter: MarkdownFormatter,
+  heading: (text, level) => `${"#".repeat(level)} ${text}\n\n`,
+  shiftHeadings: (text, levels) =>
+    shiftHeadings(text, levels, "#", { maxLevel: 6, fences: true }),
+  commentSyntax: { start: "<!-- ", end: " -->" },
+  importSyntax: MARKDOWN_IMPORT_SYNTAX,
+  defaultTemplates: MARKDOWN_DEFAULT_TEMPLATES,
+  convertNote: (html, headingLevel) =>
+    NoteConverter.toMarkdown(html, { headingLevel }),
+});
+
+FormatRegistry.register({
+  id: "org",
+  label: "Org-mode",
+  extension: ".org",
+  filter: ["Org Files (*.org)", "*.org"],
+  metadataFormatter: MetadataFormatter,
+  annotationFormatter: AnnotationFormatter,
+  heading: (text, level) => `${"*".repeat(level)} ${text}\n\n`,
+  shiftHeadings: (text, levels) => shiftHeadings(text, levels, "*"),
+  commentSyntax: { start: "# ", end: "" },
+  importSyntax: ORG_IMPORT_SYNTAX,
+  defaultTemplates: ORG_DEFAULT_TEMPLATES,
+  convertNote: (html, headingLevel) =>
+    NoteConverter.toOrg(html, { headingLevel }),
+});
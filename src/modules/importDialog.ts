@@ -0,0 +1,107 @@
+/**
+ * Context-menu import of edited comments and tags from a notes file (see
+ * syncImport.ts). The changes are shown as a diff and only written to
+ * Zotero once confirmed.
+ */
+
+import { OutputFormat } from "./formatRegistry";
+import { ImportPreview, SyncImport } from "./syncImport";
+import { getPref } from "../utils/prefs";
+
+export class ImportDialog {
+  /**
+   * Pick a file in the given format, preview its changes and apply them if
+   * confirmed.
+   */
+  static async open(format: OutputFormat): Promise<void> {
+    const path = await new ztoolkit.FilePicker(
+      `Import Changes from ${format.label} File`,
+      "open",
+      [format.filter],
+      undefined,
+      undefined,
+      undefined,
+      getPref("exportDirectory") || undefined,
+    ).open();
+    if (!path) return;
+
+    try {
+      const text = (await Zotero.File.getContentsAsync(path)) as string;
+      const preview = await SyncImport.preview(format, text);
+      if (preview.changes.length === 0) {
+        this.notify(
+          `No changes to import from ${path}${this.summary(preview)}`,
+          preview.skipped.length > 0 ? "fail" : "success",
+        );
+        return;
+      }
+      if (!(await this.confirm(path, preview))) return;
+
+      const result = await SyncImport.apply(format, preview.changes);
+      for (const { key, error } of result.failed) {
+        ztoolkit.log("Import failed for", key, error);
+      }
+      this.notify(
+        `Imported ${result.applied} annotation changes` +
+          (result.failed.length ? `, ${result.failed.length} failed` : ""),
+        result.failed.length ? "fail" : "success",
+      );
+    } catch (e) {
+      this.notify(
+        `Import failed: ${e instanceof Error ? e.message : String(e)}`,
+        "fail",
+      );
+    }
+  }
+
+  private static async confirm(
+    path: string,
+    preview: ImportPreview,
+  ): Promise<boolean> {
+    const dialogData: Record<string, any> = {};
+    new ztoolkit.Dialog(2, 1)
+      .addCell(0, 0, {
+        tag: "label",
+        namespace: "html",
+        properties: {
+          textContent:
+            `${preview.changes.length} annotations changed in ${path}` +
+            this.summary(preview),
+        },
+      })
+      .addCell(1, 0, {
+        tag: "textarea",
+        namespace: "html",
+        attributes: { readonly: "true", rows: "20", cols: "80" },
+        properties: { value: SyncImport.describe(preview) },
+      })
+      .addButton("Apply", "apply")
+      .addButton("Cancel", "cancel")
+      .setDialogData(dialogData)
+      .open("Import Annotation Changes", {
+        centerscreen: true,
+        fitContent: true,
+      });
+
+    await dialogData.unloadLock?.promise;
+    return dialogData._lastButtonId === "apply";
+  }
+
+  /**
+   * Counts of unchanged, read-only and missing annotations, e.g.
+   * " (3 unchanged, 1 not found)".
+   */
+  private static summary(preview: ImportPreview): string {
+    const { unchanged, skipped, missing } = preview;
+    const parts = [`${unchanged} unchanged`];
+    if (skipped.length) parts.push(`${skipped.length} read-only`);
+    if (missing.length) parts.push(`${missing.length} not found`);
+    return ` (${parts.join(", ")})`;
+  }
+
+  private static notify(text: string, type: "success" | "fail"): void {
+    new ztoolkit.ProgressWindow(addon.data.config.addonName)
+      .createLine({ text, type })
+      .show();
+  }
+}
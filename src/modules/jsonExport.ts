@@ -0,0 +1,162 @@
+/**
+ * Structured JSON export of annotations for API clients.
+ *
+ * Requested with format "json" on the export endpoints. Instead of rendered
+ * text, each item is returned with its metadata and an array of annotations,
+ * so clients can render them however they like.
+ */
+
+import { AnnotationFilter } from "./annotationFilter";
+import { ZoteroAnnotation } from "./annotationFormatter";
+import { AnnotationLocation } from "./annotationLocation";
+import { ColorLegend } from "./colorLegend";
+import { Exporter } from "./exporter";
+import { MetadataFormatter } from "./metadataFormatter";
+import { ZoteroLinks } from "./zoteroLinks";
+
+/** Format id accepted by the API for structured output */
+export const JSON_FORMAT = "json";
+
+export interface AnnotationJSON {
+  key: string;
+  type: string;
+  text: string;
+  comment: string;
+  color: string;
+  /** Meaning of the color from the color legend */
+  colorLabel: string;
+  pageLabel: string;
+  /** 0-based PDF page index, null for EPUBs and snapshots */
+  pageIndex: number | null;
+  /** EPUB CFI, null for PDFs and snapshots */
+  epubCFI: string | null;
+  sortIndex: string;
+  /** Parsed annotationPosition (pageIndex, rects, ...), null if invalid */
+  position: unknown;
+  tags: string[];
+  dateAdded: string;
+  dateModified: string;
+  attachmentKey: string;
+  attachmentContentType: string;
+  /** Link back to the annotation (see the linkTarget preference) */
+  url: string;
+}
+
+export interface ItemJSON {
+  key: string;
+  libraryID: number;
+  itemType: string;
+  citekey?: string;
+  title: string;
+  /** Fields also exposed to templates: authors, date, doi, abstract, ... */
+  metadata: Record<string, string | undefined>;
+  annotationCount: number;
+  annotations: AnnotationJSON[];
+}
+
+export class JsonExport {
+  static isJsonFormat(format: unknown): format is typeof JSON_FORMAT {
+    return format === JSON_FORMAT;
+  }
+
+  /**
+   * Structured annotations of an item (or attachment).
+   * Returns null if the item has no annotations.
+   */
+  static async item(
+    item: Zotero.Item,
+    citekey?: string,
+    filter?: AnnotationFilter,
+  ): Promise<ItemJSON | null> {
+    const attachments = await Exporter.getAttachments(item);
+    const legend = ColorLegend.get();
+    const annotations: AnnotationJSON[] = [];
+
+    for (const { attachment, annotations: list } of Exporter.collectAnnotations(
+      attachments,
+      filter,
+    )) {
+      for (const annotation of list) {
+        annotations.push(this.annotation(annotation, attachment, legend));
+      }
+    }
+
+    if (annotations.length === 0) return null;
+
+    const parentItem = (await Exporter.getParentItem(item)) || item;
+    const metadata = MetadataFormatter.extractFields(parentItem);
+    return {
+      key: parentItem.key,
+      libraryID: parentItem.libraryID,
+      itemType: parentItem.itemType,
+      citekey: citekey || metadata.citekey,
+      title: metadata.title || "",
+      metadata,
+      annotationCount: annotations.length,
+      annotations,
+    };
+  }
+
+  /**
+   * Structured annotations of several items; items without annotations
+   * are left out.
+   */
+  static async items(
+    items: Zotero.Item[],
+    citekeys?: string[],
+    filter?: AnnotationFilter,
+  ): Promise<{ items: ItemJSON[]; totalAnnotations: number }> {
+    const result: ItemJSON[] = [];
+    for (let i = 0; i < items.length; i++) {
+      const json = await this.item(items[i], citekeys?.[i], filter);
+      if (json) result.push(json);
+    }
+    return {
+      items: result,
+      totalAnnotations: result.reduce((n, i) => n + i.annotationCount, 0),
+    };
+  }
+
+  /**
+   * Structured form of one annotation of an attachment.
+   */
+  static annotation(
+    annotation: ZoteroAnnotation,
+    attachment: Zotero.Item,
+    legend: Record<string, string> = ColorLegend.get(),
+  ): AnnotationJSON {
+    let position: unknown = null;
+    try {
+      position = JSON.parse(annotation.annotationPosition);
+    } catch {
+      // Leave as null
+    }
+
+    return {
+      key: annotation.key,
+      type: annotation.annotationType,
+      text: annotation.annotationText || "",
+      comment: annotation.annotationComment || "",
+      color: annotation.annotationColor || "",
+      colorLabel: annotation.annotationColor
+        ? ColorLegend.label(annotation.annotationColor, legend)
+        : "",
+      pageLabel: annotation.annotationPageLabel || "",
+      pageIndex: AnnotationLocation.pageIndex(annotation),
+      epubCFI: AnnotationLocation.epubCFI(annotation),
+      sortIndex: annotation.annotationSortIndex || "",
+      position,
+      tags: (annotation.getTags() || []).map((t) => t.tag),
+      dateAdded: annotation.dateAdded || "",
+      dateModified: annotation.dateModified || "",
+      attachmentKey: attachment.key,
+      attachmentContentType: attachment.attachmentContentType,
+      url: ZoteroLinks.annotation(
+        attachment.key,
+        attachment.libraryID,
+        annotation,
+        attachment.attachmentContentType,
+      ).url,
+    };
+  }
+}
@@ -1,43 +1,33 @@
 /**
  * Formats Zotero annotations as markdown blocks.
  *
- * Annotation type mapping:
+ * Output is rendered from a TemplateSet (see defaultTemplates.ts).
+ * Annotation type mapping in the built-in templates:
  * - highlight, underline -> blockquote (> text)
  * - note -> paragraph
- * - image, ink -> placeholder text
+ * - image, ink -> ![](attachments/KEY.png) when the image was exported,
+ *   otherwise placeholder text
  *
- * Links use Zotero protocols:
- * - PDF: zotero://open-pdf/library/items/KEY?page=N&annotation=ANNOT_KEY
- * - EPUB: zotero://open-epub/library/items/KEY?annotation=ANNOT_KEY
+ * Links back to Zotero (see zoteroLinks.ts), e.g.
+ * [Page N](zotero://open-pdf/library/items/KEY?page=N&annotation=ANNOT_KEY)
+ *
+ * With citations on, quotes end in a Pandoc citation, e.g.
+ * [@smith2020, p. 12]
  */
 
-import { ZoteroAnnotation } from "./annotationFormatter";
-
-/**
- * Generate Zotero link for an annotation in markdown format.
- * Supports both PDF and EPUB attachments.
- */
-function generateZoteroLink(
-  attachmentKey: string,
-  libraryID: number,
-  annotation: ZoteroAnnotation,
-  contentType: string,
-): string {
-  const annotKey = annotation.key;
-  const libraryPath = libraryID === 1 ? "library" : `groups/${libraryID}`;
-
-  if (contentType === "application/epub+zip") {
-    // EPUB: Use location label as-is
-    const location = annotation.annotationPageLabel || "Location";
-    const url = `zotero://open-epub/${libraryPath}/items/${attachmentKey}?annotation=${annotKey}`;
-    return `[${location}](${url})`;
-  } else {
-    // PDF: Use numeric page
-    const page = parseInt(annotation.annotationPageLabel) || 1;
-    const url = `zotero://open-pdf/${libraryPath}/items/${attachmentKey}?page=${page}&annotation=${annotKey}`;
-    return `[Page ${page}](${url})`;
-  }
-}
+import {
+  buildAnnotationContext,
+  citationParts,
+  FormatOptions,
+  LinkStyle,
+  TagStyle,
+  ZoteroAnnotation,
+} from "./annotationFormatter";
+import { ColorLegend } from "./colorLegend";
+import { MARKDOWN_DEFAULT_TEMPLATES } from "./defaultTemplates";
+import { NoteConverter } from "./noteConverter";
+import { renderTemplate } from "./templateEngine";
+import { ZoteroLinks } from "./zoteroLinks";
 
 export class MarkdownFormatter {
   /**
@@ -48,159 +38,126 @@ export class MarkdownFormatter {
     attachmentKey: string,
     libraryID: number,
     contentType: string = "application/pdf",
+    options: FormatOptions = {},
   ): string {
-    const type = annotation.annotationType;
-
-    switch (type) {
+    const templates = options.templates ?? MARKDOWN_DEFAULT_TEMPLATES;
+    const { url, label } = ZoteroLinks.annotation(
+      attachmentKey,
+      libraryID,
+      annotation,
+      contentType,
+    );
+    const link = this.formatLink(url, label, options.linkStyle);
+    const text = NoteConverter.escapeMarkdown(
+      (annotation.annotationText || "").trim(),
+    );
+    const comment = NoteConverter.commentToMarkdown(
+      annotation.annotationComment || "",
+    );
+    const image = options.images?.get(annotation.key);
+    const context = buildAnnotationContext(
+      annotation,
+      {
+        text,
+        comment,
+        link,
+        zoteroUrl: url,
+        tags: this.formatTags(annotation, options.tagStyle),
+        imageLink: image ? `![Page ${annotation.annotationPageLabel}](${image})` : "",
+        colorAttr: this.formatColorAttr(annotation, options),
+        citation: this.formatCitation(annotation, contentType, options),
+      },
+      options,
+    );
+
+    switch (annotation.annotationType) {
       case "highlight":
+        return renderTemplate(templates.highlight, context);
       case "underline":
-        return this.formatHighlight(annotation, attachmentKey, libraryID, contentType);
+        return renderTemplate(templates.underline ?? templates.highlight, context);
       case "note":
-        return this.formatNote(annotation, attachmentKey, libraryID, contentType);
+        return renderTemplate(templates.note, context);
       case "image":
-        return this.formatImage(annotation, attachmentKey, libraryID, contentType);
+        return renderTemplate(templates.image, context);
       case "ink":
-        return this.formatInk(annotation, attachmentKey, libraryID, contentType);
+        return renderTemplate(templates.ink, context);
       default:
-        return this.formatGeneric(annotation, attachmentKey, libraryID, contentType);
+        return this.formatGeneric(text || comment, link);
     }
   }
 
-  private static formatHighlight(
-    annot: ZoteroAnnotation,
-    attachmentKey: string,
-    libraryID: number,
-    contentType: string,
-  ): string {
-    const link = generateZoteroLink(attachmentKey, libraryID, annot, contentType);
-    const text = annot.annotationText || "";
-    const comment = annot.annotationComment;
-    const tags = this.formatTags(annot);
-
-    let output = "";
-
-    // Link first
-    output += link + "\n\n";
-
-    // Blockquote for highlighted/underlined text
-    const quotedLines = text
-      .trim()
-      .split("\n")
-      .map((line) => "> " + line)
-      .join("\n");
-    output += quotedLines + "\n";
-
-    // Comment as separate paragraph
-    if (comment && comment.trim()) {
-      output += "\n" + comment.trim() + "\n";
-    }
-
-    // Tags as hashtags
-    if (tags) {
-      output += "\n" + tags + "\n";
-    }
-
-    return output;
+  private static formatGeneric(text: string, link: string): string {
+    return `${link ? link + "\n\n" : ""}${text}\n`;
   }
 
-  private static formatNote(
-    annot: ZoteroAnnotation,
-    attachmentKey: string,
-    libraryID: number,
-    contentType: string,
+  /**
+   * Markdown link back to the annotation, e.g. [Page 3](zotero://...)
+   */
+  private static formatLink(
+    url: string,
+    label: string,
+    style: LinkStyle = "label",
   ): string {
-    const link = generateZoteroLink(attachmentKey, libraryID, annot, contentType);
-    const comment = annot.annotationComment || "";
-    const tags = this.formatTags(annot);
-
-    let output = "";
-
-    // Link first
-    output += link + "\n\n";
-
-    // Note content as paragraph
-    output += comment.trim() + "\n";
-
-    if (tags) {
-      output += "\n" + tags + "\n";
+    switch (style) {
+      case "none":
+        return "";
+      case "url":
+        return `<${url}>`;
+      default:
+        return `[${label}](${url})`;
     }
-
-    return output;
   }
 
-  private static formatImage(
-    annot: ZoteroAnnotation,
-    attachmentKey: string,
-    libraryID: number,
+  /**
+   * Pandoc citation, e.g. [@smith2020, p. 12]. Keys with characters Pandoc
+   * does not allow in bare keys are wrapped in braces.
+   */
+  private static formatCitation(
+    annotation: ZoteroAnnotation,
     contentType: string,
+    options: FormatOptions,
   ): string {
-    const link = generateZoteroLink(attachmentKey, libraryID, annot, contentType);
-    const comment = annot.annotationComment;
-    const location = annot.annotationPageLabel;
-    const tags = this.formatTags(annot);
-
-    let output = "";
-
-    output += link + "\n\n";
-    output += `*[Image annotation at ${location}]*\n`;
-
-    if (comment && comment.trim()) {
-      output += "\n" + comment.trim() + "\n";
-    }
-
-    if (tags) {
-      output += "\n" + tags + "\n";
-    }
-
-    return output;
+    const parts = citationParts(annotation, contentType, options);
+    if (!parts) return "";
+    const key = /^[\w][\w:.#$%&\-+?<>~/]*$/.test(parts.citekey)
+      ? parts.citekey
+      : `{${parts.citekey}}`;
+    const locator = parts.locator ? `, ${parts.locator}` : "";
+    return `[@${key}${locator}]`;
   }
 
-  private static formatInk(
+  /**
+   * Pandoc span naming the annotation color, on a line of its own, e.g.
+   * [Claim]{color="#ffd400"}
+   */
+  private static formatColorAttr(
     annot: ZoteroAnnotation,
-    attachmentKey: string,
-    libraryID: number,
-    contentType: string,
+    options: FormatOptions,
   ): string {
-    const link = generateZoteroLink(attachmentKey, libraryID, annot, contentType);
-    const comment = annot.annotationComment;
-    const location = annot.annotationPageLabel;
-    const tags = this.formatTags(annot);
-
-    let output = "";
-
-    output += link + "\n\n";
-    output += `*[Ink/drawing annotation at ${location}]*\n`;
-
-    if (comment && comment.trim()) {
-      output += "\n" + comment.trim() + "\n";
-    }
-
-    if (tags) {
-      output += "\n" + tags + "\n";
-    }
-
-    return output;
+    if (!options.showColor || !annot.annotationColor) return "";
+    const label = ColorLegend.label(annot.annotationColor, options.colorLegend);
+    return `[${NoteConverter.escapeMarkdown(label)}]{color="${annot.annotationColor}"}`;
   }
 
-  private static formatGeneric(
+  private static formatTags(
     annot: ZoteroAnnotation,
-    attachmentKey: string,
-    libraryID: number,
-    contentType: string,
+    style: TagStyle = "native",
   ): string {
-    const link = generateZoteroLink(attachmentKey, libraryID, annot, contentType);
-    const text = annot.annotationText || annot.annotationComment || "";
-
-    return `${link}\n\n${text.trim()}\n`;
-  }
-
-  private static formatTags(annot: ZoteroAnnotation): string {
     const tags = annot.getTags();
-    if (!tags || tags.length === 0) return "";
+    if (style === "none" || !tags || tags.length === 0) return "";
+    if (style === "list") {
+      return `Tags: ${tags.map((t) => t.tag).join(", ")}`;
+    }
 
     // Markdown tag format: #tag1 #tag2 #tag3
-    return tags
-      .map((t) => "#" + t.tag.replace(/\s+/g, "_").replace(/#/g, ""))
-      .join(" ");
+    return tags.map((t) => "#" + this.tagName(t.tag)).join(" ");
+  }
+
+  /**
+   * A Zotero tag as a hashtag, without the "#": spaces become underscores
+   * and "#" is dropped.
+   */
+  static tagName(tag: string): string {
+    return tag.replace(/\s+/g, "_").replace(/#/g, "");
   }
 }
@@ -1,10 +1,40 @@
 /**
- * Context menu registration for "Export Annotations".
- * Supports multiple export formats: Markdown and Org-mode.
+ * Context menu registration for "Export Annotations" on items, collections,
+ * saved searches and tags in the tag selector. One submenu is built for each format in the
+ * FormatRegistry; the item menu also imports edited comments and tags back
+ * from a file. Item and collection exports can pick a user template set.
  */
 
 import { config } from "../../package.json";
+import { isReaderAttachment } from "./annotationLocation";
+import { CollectionTree } from "./collections";
 import { Exporter } from "./exporter";
+import { FilterDialog } from "./filterDialog";
+import { FormatRegistry, OutputFormat } from "./formatRegistry";
+import { ImportDialog } from "./importDialog";
+import { SavedSearch, SavedSearches } from "./savedSearches";
+import { SyncExport } from "./syncExport";
+import { SyncImport } from "./syncImport";
+import { TemplateDialog } from "./templateDialog";
+
+/**
+ * A menu command that shows its error instead of leaving it unhandled.
+ */
+function command(action: () => Promise<void>): () => Promise<void> {
+  return async () => {
+    try {
+      await action();
+    } catch (e) {
+      ztoolkit.log("Menu command failed:", e);
+      new ztoolkit.ProgressWindow(config.addonName)
+        .createLine({
+          text: `Export failed: ${e instanceof Error ? e.message : String(e)}`,
+          type: "fail",
+        })
+        .show();
+    }
+  };
+}
 
 /**
  * Get the active ZoteroPane.
@@ -13,6 +43,32 @@ function getZoteroPane(): _ZoteroTypes.ZoteroPane | null {
   return Zotero.getActiveZoteroPane() || null;
 }
 
+// Type for the tag selector (not fully typed)
+interface TagSelectorPane {
+  tagSelector?: { contextTag?: { name: string } | null };
+}
+
+// Type for saved search selection (not fully typed)
+interface SavedSearchPane {
+  getSelectedSavedSearch?: () => SavedSearch | false;
+}
+
+/**
+ * The saved search selected in the collection tree.
+ */
+function getSelectedSavedSearch(): SavedSearch | null {
+  const zp = getZoteroPane() as unknown as SavedSearchPane | null;
+  return zp?.getSelectedSavedSearch?.() || null;
+}
+
+/**
+ * The tag the tag selector's context menu was opened on.
+ */
+function getContextTag(): string | null {
+  const zp = getZoteroPane() as unknown as TagSelectorPane | null;
+  return zp?.tagSelector?.contextTag?.name || null;
+}
+
 export class MenuFactory {
   /**
    * Register the right-click context menu items for library items.
@@ -20,92 +76,296 @@ export class MenuFactory {
   static registerItemContextMenu(): void {
     const menuIcon = `chrome://${config.addonRef}/content/icons/favicon@0.5x.png`;
 
-    // Main menu with format submenus
+    // Main menu with one submenu per registered format
     ztoolkit.Menu.register("item", {
       tag: "menu",
       id: "zotero-export-notes-menu",
       label: "Export Annotations",
       icon: menuIcon,
-      children: [
-        // Markdown submenu
-        {
-          tag: "menu",
-          id: "zotero-export-notes-markdown-menu",
-          label: "Markdown",
-          children: [
-            {
-              tag: "menuitem",
-              id: "zotero-export-notes-md-file",
-              label: "Save to File...",
-              commandListener: async () => {
-                const zp = getZoteroPane();
-                const items = zp?.getSelectedItems();
-                if (items && items.length > 0) {
-                  await Exporter.exportItems(items, "md");
-                }
-              },
-            },
-            {
-              tag: "menuitem",
-              id: "zotero-export-notes-md-clipboard",
-              label: "Copy to Clipboard",
-              commandListener: async () => {
-                const zp = getZoteroPane();
-                const items = zp?.getSelectedItems();
-                if (items && items.length > 0) {
-                  await Exporter.copyItems(items, "md");
-                }
-              },
-            },
-          ],
-        },
-        // Org-mode submenu
-        {
-          tag: "menu",
-          id: "zotero-export-notes-org-menu",
-          label: "Org-mode",
-          children: [
-            {
-              tag: "menuitem",
-              id: "zotero-export-notes-org-file",
-              label: "Save to File...",
-              commandListener: async () => {
-                const zp = getZoteroPane();
-                const items = zp?.getSelectedItems();
-                if (items && items.length > 0) {
-                  await Exporter.exportItems(items, "org");
-                }
-              },
-            },
-            {
-              tag: "menuitem",
-              id: "zotero-export-notes-org-clipboard",
-              label: "Copy to Clipboard",
-              commandListener: async () => {
-                const zp = getZoteroPane();
-                const items = zp?.getSelectedItems();
-                if (items && items.length > 0) {
-                  await Exporter.copyItems(items, "org");
-                }
-              },
-            },
-          ],
-        },
-      ],
+      children: this.orderedFormats().map((format) => ({
+        tag: "menu" as const,
+        id: `zotero-export-notes-${format.id}-menu`,
+        label: format.label,
+        children: [
+          {
+            tag: "menuitem" as const,
+            id: `zotero-export-notes-${format.id}-file`,
+            label: "Save to File...",
+            commandListener: command(async () => {
+              const zp = getZoteroPane();
+              const items = zp?.getSelectedItems();
+              if (items && items.length > 0) {
+                await Exporter.exportItems(items, format.id);
+              }
+            }),
+          },
+          {
+            tag: "menuitem" as const,
+            id: `zotero-export-notes-${format.id}-file-template`,
+            label: "Save with Template to File...",
+            getVisibility: () => TemplateDialog.hasChoice(format),
+            commandListener: command(async () => {
+              const zp = getZoteroPane();
+              const items = zp?.getSelectedItems();
+              if (!items || items.length === 0) return;
+              const template = await TemplateDialog.choose(format);
+              if (template) {
+                await Exporter.exportItems(items, format.id, { template });
+              }
+            }),
+          },
+          {
+            tag: "menuitem" as const,
+            id: `zotero-export-notes-${format.id}-file-filtered`,
+            label: "Save Filtered to File...",
+            commandListener: command(async () => {
+              const zp = getZoteroPane();
+              const items = zp?.getSelectedItems();
+              if (!items || items.length === 0) return;
+              const filter = await FilterDialog.open(items);
+              if (filter) {
+                await Exporter.exportItems(items, format.id, { filter });
+              }
+            }),
+          },
+          {
+            tag: "menuitem" as const,
+            id: `zotero-export-notes-${format.id}-folder`,
+            label: "Export to Folder...",
+            commandListener: command(async () => {
+              const zp = getZoteroPane();
+              const items = zp?.getSelectedItems();
+              if (items && items.length > 0) {
+                await Exporter.exportItemsToFolder(items, format.id);
+              }
+            }),
+          },
+          {
+            tag: "menuitem" as const,
+            id: `zotero-export-notes-${format.id}-sync`,
+            label: "Sync to File...",
+            getVisibility: () => SyncExport.supports(format),
+            commandListener: command(async () => {
+              const zp = getZoteroPane();
+              const items = zp?.getSelectedItems();
+              if (items && items.length > 0) {
+                await Exporter.syncItems(items, format.id);
+              }
+            }),
+          },
+          {
+            tag: "menuitem" as const,
+            id: `zotero-export-notes-${format.id}-import`,
+            label: "Import Changes from File...",
+            getVisibility: () => SyncImport.supports(format),
+            commandListener: command(async () => {
+              await ImportDialog.open(format);
+            }),
+          },
+          {
+            tag: "menuitem" as const,
+            id: `zotero-export-notes-${format.id}-clipboard`,
+            label: "Copy to Clipboard",
+            commandListener: command(async () => {
+              const zp = getZoteroPane();
+              const items = zp?.getSelectedItems();
+              if (items && items.length > 0) {
+                await Exporter.copyItems(items, format.id);
+              }
+            }),
+          },
+        ],
+      })),
       getVisibility: () => {
-        // Show only when items with potential PDF attachments are selected
+        // Show only when items that may have annotations or notes are selected
         const zp = getZoteroPane();
         const items = zp?.getSelectedItems();
         if (!items || items.length === 0) return false;
 
         return items.some((item: Zotero.Item) => {
-          // Show for PDF attachments
-          if (item.isPDFAttachment?.()) return true;
-          // Show for regular items (which may have PDF attachments)
+          // Show for PDF, EPUB and snapshot attachments
+          if (isReaderAttachment(item)) return true;
+          // Show for regular items (which may have such attachments)
           if (item.isRegularItem()) return true;
+          // Show for notes, exported as converted text
+          if (item.isNote()) return true;
           return false;
         });
       },
     });
   }
+
+  /**
+   * Register the right-click context menu for collections.
+   */
+  static registerCollectionContextMenu(): void {
+    const menuIcon = `chrome://${config.addonRef}/content/icons/favicon@0.5x.png`;
+
+    ztoolkit.Menu.register("collection", {
+      tag: "menu",
+      id: "zotero-export-notes-collection-menu",
+      label: "Export Annotations",
+      icon: menuIcon,
+      children: this.orderedFormats().map((format) => ({
+        tag: "menu" as const,
+        id: `zotero-export-notes-collection-${format.id}-menu`,
+        label: format.label,
+        children: [
+          {
+            tag: "menuitem" as const,
+            id: `zotero-export-notes-collection-${format.id}-file`,
+            label: "Save to File...",
+            commandListener: command(async () => {
+              const collection = getZoteroPane()?.getSelectedCollection();
+              if (collection) {
+                await Exporter.exportCollection(collection, format.id);
+              }
+            }),
+          },
+          {
+            tag: "menuitem" as const,
+            id: `zotero-export-notes-collection-${format.id}-file-template`,
+            label: "Save with Template to File...",
+            getVisibility: () => TemplateDialog.hasChoice(format),
+            commandListener: command(async () => {
+              const collection = getZoteroPane()?.getSelectedCollection();
+              if (!collection) return;
+              const template = await TemplateDialog.choose(format);
+              if (template) {
+                await Exporter.exportCollection(collection, format.id, false, {
+                  template,
+                });
+              }
+            }),
+          },
+          {
+            tag: "menuitem" as const,
+            id: `zotero-export-notes-collection-${format.id}-file-recursive`,
+            label: "Save to File with Subcollections...",
+            commandListener: command(async () => {
+              const collection = getZoteroPane()?.getSelectedCollection();
+              if (collection) {
+                await Exporter.exportCollection(collection, format.id, true);
+              }
+            }),
+          },
+          {
+            tag: "menuitem" as const,
+            id: `zotero-export-notes-collection-${format.id}-folder`,
+            label: "Export to Folder...",
+            commandListener: command(async () => {
+              const collection = getZoteroPane()?.getSelectedCollection();
+              if (!collection) return;
+              const items = await CollectionTree.getItems(collection, false);
+              if (items.length > 0) {
+                await Exporter.exportItemsToFolder(items, format.id);
+              }
+            }),
+          },
+          {
+            tag: "menuitem" as const,
+            id: `zotero-export-notes-collection-${format.id}-tree`,
+            label: "Export to Folder Tree...",
+            commandListener: command(async () => {
+              const collection = getZoteroPane()?.getSelectedCollection();
+              if (collection) {
+                await Exporter.exportCollectionTree(collection, format.id);
+              }
+            }),
+          },
+        ],
+      })),
+      // Only for real collections, not libraries, searches or trash
+      getVisibility: () => !!getZoteroPane()?.getSelectedCollection(),
+    });
+  }
+
+  /**
+   * Register the right-click context menu for saved searches.
+   */
+  static registerSavedSearchContextMenu(): void {
+    const menuIcon = `chrome://${config.addonRef}/content/icons/favicon@0.5x.png`;
+
+    ztoolkit.Menu.register("collection", {
+      tag: "menu",
+      id: "zotero-export-notes-search-menu",
+      label: "Export Annotations",
+      icon: menuIcon,
+      children: this.orderedFormats().map((format) => ({
+        tag: "menu" as const,
+        id: `zotero-export-notes-search-${format.id}-menu`,
+        label: format.label,
+        children: [
+          {
+            tag: "menuitem" as const,
+            id: `zotero-export-notes-search-${format.id}-file`,
+            label: "Save to File...",
+            commandListener: command(async () => {
+              const search = getSelectedSavedSearch();
+              if (search) {
+                await Exporter.exportSavedSearch(search, format.id);
+              }
+            }),
+          },
+          {
+            tag: "menuitem" as const,
+            id: `zotero-export-notes-search-${format.id}-folder`,
+            label: "Export to Folder...",
+            commandListener: command(async () => {
+              const search = getSelectedSavedSearch();
+              if (!search) return;
+              const items = await SavedSearches.getItems(search);
+              if (items.length > 0) {
+                await Exporter.exportItemsToFolder(items, format.id);
+              }
+            }),
+          },
+        ],
+      })),
+      getVisibility: () => !!getSelectedSavedSearch(),
+    });
+  }
+
+  /**
+   * Register "Export Annotations" in the tag selector's context menu: all
+   * annotations with the tag in the current library, in one file.
+   */
+  static registerTagContextMenu(win: _ZoteroTypes.MainWindow): void {
+    const tagMenu = win.document.getElementById("tag-menu");
+    if (!tagMenu) return;
+    const menuIcon = `chrome://${config.addonRef}/content/icons/favicon@0.5x.png`;
+
+    type MenuPopup = Parameters<typeof ztoolkit.Menu.register>[0];
+    ztoolkit.Menu.register(tagMenu as unknown as MenuPopup, {
+      tag: "menu",
+      id: "zotero-export-notes-tag-menu",
+      label: "Export Annotations",
+      icon: menuIcon,
+      children: this.orderedFormats().map((format) => ({
+        tag: "menuitem" as const,
+        id: `zotero-export-notes-tag-${format.id}-file`,
+        label: `${format.label}...`,
+        commandListener: command(async () => {
+          const zp = getZoteroPane();
+          const tag = getContextTag();
+          if (zp && tag) {
+            await Exporter.exportTag(zp.getSelectedLibraryID(), tag, format.id);
+          }
+        }),
+      })),
+      getVisibility: () => !!getContextTag(),
+    });
+  }
+
+  /**
+   * Registered formats with the default format (preference) first.
+   */
+  private static orderedFormats(): OutputFormat[] {
+    const defaultFormat = Exporter.defaultFormat();
+    const formats = FormatRegistry.getAll();
+    return [
+      ...formats.filter((f) => f.id === defaultFormat),
+      ...formats.filter((f) => f.id !== defaultFormat),
+    ];
+  }
 }
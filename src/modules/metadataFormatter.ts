@@ -10,45 +10,68 @@
  * :END:
  *
  * ** Annotations
+ *
+ * Rendered from the header template of a TemplateSet.
  */
 
-export class MetadataFormatter {
-  /**
-   * Format item metadata as org file header.
-   * Title becomes level 1 heading with property drawer below.
-   */
-  static format(item: Zotero.Item): string {
-    const fields = this.extractFields(item);
-
-    // Title as level 1 heading
-    let output = "* " + (fields.title || "Untitled") + "\n";
-
-    // Property drawer (must be immediately after heading)
-    output += ":PROPERTIES:\n";
+import { getPref } from "../utils/prefs";
+import { FormatOptions } from "./annotationFormatter";
+import { ORG_DEFAULT_TEMPLATES } from "./defaultTemplates";
+import { renderTemplate } from "./templateEngine";
 
-    if (fields.authors) output += `:AUTHOR: ${fields.authors}\n`;
-    if (fields.date) output += `:DATE: ${fields.date}\n`;
-    if (fields.publication) output += `:PUBLICATION: ${fields.publication}\n`;
-    if (fields.doi) output += `:DOI: ${fields.doi}\n`;
-    if (fields.url) output += `:URL: ${fields.url}\n`;
-    if (fields.zoteroKey) output += `:ZOTERO_KEY: ${fields.zoteroKey}\n`;
-    if (fields.citekey) output += `:CUSTOM_ID: ${fields.citekey}\n`;
+// Type for the Better BibTeX plugin's key manager (not typed)
+interface BetterBibTeXLookup {
+  BetterBibTeX?: {
+    KeyManager?: {
+      get: (
+        itemID: number,
+      ) => { citationKey?: string; citekey?: string } | null | undefined;
+    };
+  };
+}
 
-    output += ":END:\n\n";
+/**
+ * Keep only the header fields enabled in preferences: the title, the
+ * comma-separated metadataFields list, and the abstract if includeAbstract
+ * is set. Shared by the org-mode and markdown metadata formatters.
+ */
+export function selectHeaderFields(
+  fields: Record<string, string | undefined>,
+): Record<string, string | undefined> {
+  const enabled = new Set(
+    (getPref("metadataFields") || "")
+      .split(",")
+      .map((name) => name.trim())
+      .filter((name) => name),
+  );
 
-    // Abstract as separate section if available
-    if (fields.abstract) {
-      output += "** Abstract\n";
-      output += fields.abstract + "\n\n";
+  const selected: Record<string, string | undefined> = { title: fields.title };
+  for (const [name, value] of Object.entries(fields)) {
+    if (enabled.has(name)) {
+      selected[name] = value;
     }
+  }
+  selected.abstract = getPref("includeAbstract") ? fields.abstract : undefined;
+  return selected;
+}
 
-    // Annotations section header (level 2)
-    output += "** Annotations\n\n";
-
-    return output;
+export class MetadataFormatter {
+  /**
+   * Format item metadata as org file header.
+   * Title becomes level 1 heading with property drawer below.
+   */
+  static format(item: Zotero.Item, options: FormatOptions = {}): string {
+    const templates = options.templates ?? ORG_DEFAULT_TEMPLATES;
+    return renderTemplate(
+      templates.header,
+      selectHeaderFields(this.extractFields(item)),
+    );
   }
 
-  private static extractFields(
+  /**
+   * Extract the metadata fields exposed to header and annotation templates.
+   */
+  static extractFields(
     item: Zotero.Item,
   ): Record<string, string | undefined> {
     const fields: Record<string, string | undefined> = {};
@@ -81,7 +104,7 @@ export class MetadataFormatter {
           .join("; ");
       }
 
-      // Try to get Better BibTeX citekey from extra field
+      // Citekey pinned in Extra, otherwise from Better BibTeX
       const extra = item.getField("extra") as string;
       if (extra) {
         const citekeyMatch = extra.match(/Citation Key:\s*(.+)/i);
@@ -89,6 +112,9 @@ export class MetadataFormatter {
           fields.citekey = citekeyMatch[1].trim();
         }
       }
+      if (!fields.citekey) {
+        fields.citekey = this.betterBibTeXKey(item);
+      }
     } catch (e) {
       // Silently handle errors accessing fields
       ztoolkit.log("Error extracting metadata fields:", e);
@@ -96,4 +122,19 @@ export class MetadataFormatter {
 
     return fields;
   }
+
+  /**
+   * Citekey from Better BibTeX, if installed (keys not pinned to Extra).
+   */
+  private static betterBibTeXKey(item: Zotero.Item): string | undefined {
+    try {
+      const key = (
+        Zotero as unknown as BetterBibTeXLookup
+      ).BetterBibTeX?.KeyManager?.get(item.id);
+      return key?.citationKey || key?.citekey || undefined;
+    } catch (e) {
+      ztoolkit.log("Could not get Better BibTeX citekey:", e);
+      return undefined;
+    }
+  }
 }
@@ -0,0 +1,612 @@
+/**
+ * Converts Zotero rich text (note HTML, annotation comments) to org-mode or
+ * Markdown.
+ *
+ * HTML is parsed with DOMParser. Handles the subset the Zotero note editor
+ * writes: headings, paragraphs, lists, block quotes, code, tables, inline
+ * formatting and links. Embedded citations (span.citation) link each cited
+ * item with zotero://select; annotation references (span.highlight) link
+ * to the annotation as exported annotations do (the "linkTarget"
+ * preference). Images in notes become a placeholder.
+ *
+ * Text is escaped so it cannot be read as markup: inline markers, and lines
+ * that would start a heading, drawer, keyword or block delimiter. Math
+ * ($...$, $$...$$) is kept as written.
+ */
+
+import { ZoteroLinks } from "./zoteroLinks";
+
+export interface NoteConvertOptions {
+  /** Heading level for <h1>; deeper headings follow (default: 1) */
+  headingLevel?: number;
+}
+
+interface NoteSyntax {
+  heading(text: string, level: number): string;
+  bold(text: string): string;
+  italic(text: string): string;
+  underline(text: string): string;
+  strike(text: string): string;
+  code(text: string): string;
+  subscript(text: string): string;
+  superscript(text: string): string;
+  link(url: string, text: string): string;
+  /** Line break within a paragraph (<br>) */
+  lineBreak: string;
+  quote(text: string): string;
+  codeBlock(text: string): string;
+  /** Separator row after a table's first row */
+  tableRule(columns: number): string;
+  /** Escaped "|" inside table cells */
+  tablePipe: string;
+  /** Escape markup characters in text */
+  escape(text: string): string;
+  /** Escape a line that would start a heading, block, etc. */
+  escapeLine(line: string): string;
+  rule: string;
+}
+
+const MARKDOWN_SYNTAX: NoteSyntax = {
+  heading: (text, level) => `${"#".repeat(level)} ${text}`,
+  bold: (text) => `**${text}**`,
+  italic: (text) => `*${text}*`,
+  underline: (text) => text,
+  strike: (text) => `~~${text}~~`,
+  code: (text) => `\`${text}\``,
+  // Pandoc syntax
+  subscript: (text) => `~${text}~`,
+  superscript: (text) => `^${text}^`,
+  link: (url, text) =>
+    text && text !== url ? `[${text}](${url})` : `<${url}>`,
+  lineBreak: "\\\n",
+  quote: (text) =>
+    text
+      .split("\n")
+      .map((line) => (line ? `> ${line}` : ">"))
+      .join("\n"),
+  codeBlock: (text) => "```\n" + text + "\n```",
+  tableRule: (columns) => `|${" --- |".repeat(columns)}`,
+  tablePipe: "\\|",
+  escape: (text) => text.replace(/[\\`*_[\]<]/g, "\\$&"),
+  // Headings (ATX and setext), block quotes and code fences
+  escapeLine: (line) =>
+    line.replace(
+      /^(\s*)(?=#{1,6}(?:\s|$)|>|`{3}|~{3}|(?:=+|-{2,})\s*$)/,
+      "$1\\",
+    ),
+  rule: "---",
+};
+
+const ORG_SYNTAX: NoteSyntax = {
+  heading: (text, level) => `${"*".repeat(level)} ${text}`,
+  bold: (text) => `*${text}*`,
+  italic: (text) => `/${text}/`,
+  underline: (text) => `_${text}_`,
+  strike: (text) => `+${text}+`,
+  code: (text) => `~${text}~`,
+  subscript: (text) => `_{${text}}`,
+  superscript: (text) => `^{${text}}`,
+  link: (url, text) =>
+    text && text !== url ? `[[${url}][${text}]]` : `[[${url}]]`,
+  lineBreak: "\\\\\n",
+  quote: (text) => `#+begin_quote\n${text}\n#+end_quote`,
+  codeBlock: (text) => `#+begin_example\n${text}\n#+end_example`,
+  tableRule: (columns) => `|${Array(columns).fill("---").join("+")}|`,
+  tablePipe: "\\vert{}",
+  // Org has no escape character; a zero-width space breaks up the markup
+  escape: (text) =>
+    text
+      .replace(/\[\[/g, "[\u200b[")
+      .replace(/(^|[\s('"{-])(?=[*/_+=~]\S)/g, "$1\u200b"),
+  // Headings, #+ keywords and blocks, comment lines and drawers
+  escapeLine: (line) =>
+    line.replace(
+      /^(\s*)(?=\*+(?:\s|$)|#\+|#(?:\s|$)|:[\w-]*:(?:\s|$))/,
+      "$1\u200b",
+    ),
+  rule: "-----",
+};
+
+/**
+ * Inline formatting of annotation comments (<b>, <i>, <sub>, <sup>) as
+ * written by each syntax, for reading edited comments back. Applied in
+ * order to HTML-escaped text.
+ */
+type CommentMarkup = Array<[RegExp, string]>;
+
+const MARKDOWN_COMMENT_MARKUP: CommentMarkup = [
+  [/\*\*(\S|\S.*?\S)\*\*/g, "<b>$1</b>"],
+  [/\*(\S|\S.*?\S)\*/g, "<i>$1</i>"],
+  [/(^|[^~])~([^~\s]+)~(?!~)/gm, "$1<sub>$2</sub>"],
+  [/\^([^^\s]+)\^/g, "<sup>$1</sup>"],
+];
+
+// Markup needs the same boundaries as in org; escaped markup has a
+// zero-width space before it, which is not one
+const ORG_COMMENT_MARKUP: CommentMarkup = [
+  [/_\{([^}]*)\}/g, "<sub>$1</sub>"],
+  [/\^\{([^}]*)\}/g, "<sup>$1</sup>"],
+  [/(^|[\s('"{-])\*(\S|\S.*?\S)\*(?=$|[\s)'".,;:!?}-])/gm, "$1<b>$2</b>"],
+  [/(^|[\s('"{-])\/(\S|\S.*?\S)\/(?=$|[\s)'".,;:!?}-])/gm, "$1<i>$2</i>"],
+];
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+export interface HtmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+export type HtmlNode = HtmlElement | string;
+
+const BLOCK_TAGS = new Set([
+  "p",
+  "div",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "ul",
+  "ol",
+  "li",
+  "blockquote",
+  "pre",
+  "hr",
+  "table",
+]);
+
+// DOM node types (Node is not defined in the plugin scope)
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+const CDATA_SECTION_NODE = 4;
+
+/**
+ * Parse HTML, or XML such as EPUB package files, into a tree with
+ * lowercase tag and attribute names. Comments are dropped.
+ */
+export function parseHtml(
+  html: string,
+  type: SupportedType = "text/html",
+): HtmlElement {
+  const DOMParser = ztoolkit.getGlobal("DOMParser");
+  const doc = new DOMParser().parseFromString(html, type);
+  const top = type === "text/html" ? doc.body : doc;
+  return {
+    tag: "#root",
+    attrs: {},
+    children: top ? fromDom(top) : [],
+  };
+}
+
+function fromDom(parent: Node): HtmlNode[] {
+  const children: HtmlNode[] = [];
+  for (const node of Array.from(parent.childNodes)) {
+    if (node?.nodeType === TEXT_NODE || node?.nodeType === CDATA_SECTION_NODE) {
+      children.push(node.nodeValue ?? "");
+    } else if (node?.nodeType === ELEMENT_NODE) {
+      const element = node as Element;
+      const attrs: Record<string, string> = {};
+      for (const attr of Array.from(element.attributes)) {
+        attrs[attr.name.toLowerCase()] = attr.value;
+      }
+      children.push({
+        tag: element.localName.toLowerCase(),
+        attrs,
+        children: fromDom(element),
+      });
+    }
+  }
+  return children;
+}
+
+/** Math in text: $$...$$ or $...$ without inner spaces at the ends */
+const MATH_PATTERN = /(\$\$[\s\S]+?\$\$|\$[^$\s](?:[^$\n]*[^$\s])?\$)/;
+
+/** Stands for a newline that is kept as written (comments) */
+const KEPT_NEWLINE = "\ue000";
+
+function hasClass(element: HtmlElement, name: string): boolean {
+  return (element.attrs.class || "").split(/\s+/).includes(name);
+}
+
+export function textContent(node: HtmlNode): string {
+  return typeof node === "string"
+    ? node
+    : node.children.map(textContent).join("");
+}
+
+/** data-citation payload of span.citation (the parts used here) */
+interface CitationData {
+  citationItems?: Array<{ uris?: string[] }>;
+}
+
+/** data-annotation payload of span.highlight (the parts used here) */
+interface AnnotationData {
+  attachmentURI?: string;
+  annotationKey?: string;
+}
+
+/**
+ * Parse a URL-encoded JSON attribute (data-citation, data-annotation).
+ * Null unless it holds an object.
+ */
+function parseDataAttr<T extends object>(value: string | undefined): T | null {
+  if (!value) return null;
+  try {
+    const data: unknown = JSON.parse(decodeURIComponent(value));
+    return data && typeof data === "object" ? (data as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+class NoteRenderer {
+  constructor(
+    private syntax: NoteSyntax,
+    private headingLevel: number,
+  ) {}
+
+  /**
+   * Render the children of an element as blocks separated by blank lines.
+   * Runs of inline content between blocks form paragraphs.
+   */
+  blocks(nodes: HtmlNode[]): string {
+    const blocks: string[] = [];
+    let inline: HtmlNode[] = [];
+    const flush = () => {
+      const text = this.inline(inline).trim();
+      if (text) {
+        blocks.push(text.split("\n").map(this.syntax.escapeLine).join("\n"));
+      }
+      inline = [];
+    };
+
+    for (const node of nodes) {
+      if (typeof node !== "string" && BLOCK_TAGS.has(node.tag)) {
+        flush();
+        const block = this.block(node);
+        if (block) blocks.push(block);
+      } else {
+        inline.push(node);
+      }
+    }
+    flush();
+    return blocks.join("\n\n");
+  }
+
+  private block(element: HtmlElement): string {
+    const { syntax } = this;
+    const heading = element.tag.match(/^h([1-6])$/);
+    if (heading) {
+      const level = this.headingLevel + parseInt(heading[1]) - 1;
+      return syntax.heading(this.inline(element.children).trim(), level);
+    }
+
+    switch (element.tag) {
+      case "ul":
+      case "ol":
+        return this.list(element, "");
+      case "blockquote": {
+        const text = this.blocks(element.children);
+        return text ? syntax.quote(text) : "";
+      }
+      case "pre":
+        // Math blocks keep their $$...$$ source
+        return hasClass(element, "math")
+          ? textContent(element).trim()
+          : syntax.codeBlock(textContent(element).replace(/\n$/, ""));
+      case "hr":
+        return syntax.rule;
+      case "table":
+        return this.table(element);
+      default:
+        // p, div, and li outside a list
+        return this.blocks(element.children);
+    }
+  }
+
+  /**
+   * Render a list; nested lists and continuation lines line up with the
+   * item text.
+   */
+  private list(element: HtmlElement, indent: string): string {
+    const lines: string[] = [];
+    let number = parseInt(element.attrs.start) || 1;
+
+    for (const child of element.children) {
+      if (typeof child === "string" || child.tag !== "li") continue;
+      const bullet = element.tag === "ol" ? `${number++}. ` : "- ";
+      const itemIndent = indent + " ".repeat(bullet.length);
+      const nested: string[] = [];
+      const content: HtmlNode[] = [];
+      for (const node of child.children) {
+        if (
+          typeof node !== "string" &&
+          (node.tag === "ul" || node.tag === "ol")
+        ) {
+          nested.push(this.list(node, itemIndent));
+        } else {
+          content.push(node);
+        }
+      }
+      const text = this.blocks(content).replace(/\n(?!\n)/g, "\n" + itemIndent);
+      lines.push(indent + bullet + text, ...nested);
+    }
+    return lines.join("\n");
+  }
+
+  private table(element: HtmlElement): string {
+    const rows: string[][] = [];
+    const collect = (node: HtmlNode) => {
+      if (typeof node === "string") return;
+      if (node.tag === "tr") {
+        rows.push(
+          node.children
+            .filter((c): c is HtmlElement => typeof c !== "string")
+            .filter((c) => c.tag === "td" || c.tag === "th")
+            .map((c) =>
+              this.inline(c.children)
+                .trim()
+                .replace(/\|/g, this.syntax.tablePipe),
+            ),
+        );
+      } else {
+        node.children.forEach(collect);
+      }
+    };
+    collect(element);
+    if (rows.length === 0) return "";
+
+    const columns = Math.max(...rows.map((r) => r.length));
+    const lines = rows.map((cells) => {
+      const padded = [...cells, ...Array(columns - cells.length).fill("")];
+      return `| ${padded.join(" | ")} |`;
+    });
+    lines.splice(1, 0, this.syntax.tableRule(columns));
+    return lines.join("\n");
+  }
+
+  /**
+   * Render inline content on one line; whitespace collapses as in HTML and
+   * <br> becomes a line break.
+   */
+  inline(nodes: HtmlNode[]): string {
+    return nodes
+      .map((node) => this.inlineNode(node))
+      .join("")
+      .replace(/[ \t\r\n]+/g, " ")
+      .replace(/ ?\u2028 ?/g, this.syntax.lineBreak)
+      .replace(new RegExp(` ?${KEPT_NEWLINE} ?`, "g"), "\n");
+  }
+
+  /**
+   * Escape text, leaving math as written.
+   */
+  text(text: string): string {
+    return text
+      .split(MATH_PATTERN)
+      .map((part, i) => (i % 2 ? part : this.syntax.escape(part)))
+      .join("");
+  }
+
+  private inlineNode(node: HtmlNode): string {
+    const { syntax } = this;
+    if (typeof node === "string") return this.text(node);
+
+    const content = () => this.inline(node.children);
+    const wrap = (format: (text: string) => string) => {
+      // Keep surrounding spaces outside the markup
+      const text = content();
+      const start = text.length - text.trimStart().length;
+      const end = text.trimEnd().length;
+      if (start >= end) return text;
+      return (
+        text.slice(0, start) + format(text.slice(start, end)) + text.slice(end)
+      );
+    };
+
+    switch (node.tag) {
+      case "br":
+        return "\u2028";
+      case "strong":
+      case "b":
+        return wrap(syntax.bold);
+      case "em":
+      case "i":
+        return wrap(syntax.italic);
+      case "u":
+        return wrap(syntax.underline);
+      case "s":
+      case "del":
+      case "strike":
+        return wrap(syntax.strike);
+      case "code":
+        return syntax.code(textContent(node));
+      case "sub":
+        return wrap(syntax.subscript);
+      case "sup":
+        return wrap(syntax.superscript);
+      case "a":
+        return node.attrs.href
+          ? syntax.link(node.attrs.href, content().trim())
+          : content();
+      case "img":
+        return "[Image]";
+      case "span":
+        if (hasClass(node, "citation")) return this.citation(node);
+        if (hasClass(node, "highlight")) return this.highlight(node);
+        if (hasClass(node, "math")) return textContent(node);
+        return content();
+      default:
+        // Blocks nested in inline content (e.g. a list inside a table cell)
+        return BLOCK_TAGS.has(node.tag)
+          ? " " + this.blocks(node.children) + " "
+          : content();
+    }
+  }
+
+  /**
+   * Citation: each span.citation-item links to its cited item.
+   */
+  private citation(element: HtmlElement): string {
+    const citation = parseDataAttr<CitationData>(
+      element.attrs["data-citation"],
+    );
+    const items = citation?.citationItems || [];
+    let index = 0;
+
+    const render = (nodes: HtmlNode[]): string =>
+      nodes
+        .map((node) => {
+          if (typeof node === "string") return node;
+          if (node.tag === "span" && hasClass(node, "citation-item")) {
+            const text = this.inline(node.children);
+            const uri = items[index++]?.uris?.[0];
+            const item = uri ? ZoteroLinks.parseItemURI(uri) : null;
+            return item
+              ? this.syntax.link(
+                  `zotero://select/${item.libraryPath}/items/${item.key}`,
+                  text,
+                )
+              : text;
+          }
+          return render(node.children);
+        })
+        .join("");
+
+    return render(element.children);
+  }
+
+  /**
+   * Annotation reference: the quoted text, linked to the annotation as
+   * exported annotations are. Unlinked if the annotation is not in the
+   * library.
+   */
+  private highlight(element: HtmlElement): string {
+    const text = this.inline(element.children);
+    const annotation = parseDataAttr<AnnotationData>(
+      element.attrs["data-annotation"],
+    );
+    const link =
+      annotation?.attachmentURI && annotation.annotationKey
+        ? ZoteroLinks.annotationByURI(
+            annotation.attachmentURI,
+            annotation.annotationKey,
+          )
+        : null;
+    return link ? this.syntax.link(link.url, text) : text;
+  }
+}
+
+export class NoteConverter {
+  /**
+   * Convert note HTML to Markdown.
+   */
+  static toMarkdown(html: string, options: NoteConvertOptions = {}): string {
+    return this.convert(html, MARKDOWN_SYNTAX, options);
+  }
+
+  /**
+   * Convert note HTML to org-mode.
+   */
+  static toOrg(html: string, options: NoteConvertOptions = {}): string {
+    return this.convert(html, ORG_SYNTAX, options);
+  }
+
+  /**
+   * Convert an annotation comment to Markdown. Comments may use <b>, <i>,
+   * <sub> and <sup>; line breaks are kept as written.
+   */
+  static commentToMarkdown(comment: string): string {
+    return this.convertComment(comment, MARKDOWN_SYNTAX);
+  }
+
+  /**
+   * Convert an annotation comment to org-mode.
+   */
+  static commentToOrg(comment: string): string {
+    return this.convertComment(comment, ORG_SYNTAX);
+  }
+
+  /**
+   * Escape plain text (e.g. highlighted text) for Markdown.
+   */
+  static escapeMarkdown(text: string): string {
+    return this.escapePlain(text, MARKDOWN_SYNTAX);
+  }
+
+  /**
+   * Escape plain text for org-mode.
+   */
+  static escapeOrg(text: string): string {
+    return this.escapePlain(text, ORG_SYNTAX);
+  }
+
+  /**
+   * Convert an annotation comment edited in Markdown back to Zotero rich
+   * text: the inverse of commentToMarkdown for comment formatting and
+   * escapes. Other markup is kept as written.
+   */
+  static commentFromMarkdown(text: string): string {
+    // Escaped characters are set aside so they are not read as markup
+    const escaped = text
+      .replace(/\\\n/g, "\n")
+      .replace(/\\([!-~])/g, (_, c: string) =>
+        String.fromCharCode(0xf000 + c.charCodeAt(0)),
+      );
+    return this.applyMarkup(escaped, MARKDOWN_COMMENT_MARKUP).replace(
+      /[\uf021-\uf07e]/g,
+      (c) => escapeHtml(String.fromCharCode(c.charCodeAt(0) - 0xf000)),
+    );
+  }
+
+  /**
+   * Convert an annotation comment edited in org-mode back to Zotero rich
+   * text: the inverse of commentToOrg for comment formatting and escapes.
+   * Other markup is kept as written.
+   */
+  static commentFromOrg(text: string): string {
+    return this.applyMarkup(
+      text.replace(/\\\\\n/g, "\n"),
+      ORG_COMMENT_MARKUP,
+    ).replace(/\u200b/g, "");
+  }
+
+  private static applyMarkup(text: string, markup: CommentMarkup): string {
+    return markup
+      .reduce(
+        (html, [pattern, replacement]) => html.replace(pattern, replacement),
+        escapeHtml(text),
+      )
+      .trim();
+  }
+
+  private static convertComment(comment: string, syntax: NoteSyntax): string {
+    return this.convert(comment.replace(/\r?\n/g, KEPT_NEWLINE), syntax, {});
+  }
+
+  private static escapePlain(text: string, syntax: NoteSyntax): string {
+    const renderer = new NoteRenderer(syntax, 1);
+    return text
+      .split("\n")
+      .map((line) => syntax.escapeLine(renderer.text(line)))
+      .join("\n");
+  }
+
+  private static convert(
+    html: string,
+    syntax: NoteSyntax,
+    options: NoteConvertOptions,
+  ): string {
+    const renderer = new NoteRenderer(syntax, options.headingLevel ?? 1);
+    return renderer.blocks(parseHtml(html).children).trim();
+  }
+}
@@ -0,0 +1,402 @@
+/**
+ * Table of contents of an attachment, for nesting exported annotations
+ * under the chapter or section they fall in.
+ *
+ * PDFs use their outline (bookmarks), read from the file by pdfOutline.ts.
+ * EPUBs use their navigation document (EPUB 3) or NCX (EPUB 2). EPUB
+ * annotations only carry their spine item, so an EPUB heading covers the
+ * file it points to and later headings in the same file are not used for
+ * placement. Snapshots have no outline.
+ *
+ * Each annotation goes under the last heading starting at or before it;
+ * annotations before the first heading come first, without one.
+ */
+
+import { ZoteroAnnotation } from "./annotationFormatter";
+import {
+  AnnotationLocation,
+  EPUB_CONTENT_TYPE,
+  PDF_CONTENT_TYPE,
+} from "./annotationLocation";
+import { HtmlElement, parseHtml, textContent } from "./noteConverter";
+import { PdfOutline, PdfOutlineEntry } from "./pdfOutline";
+
+/**
+ * A heading of the table of contents. Start positions compare element by
+ * element: [pageIndex, -top] for PDFs, [spineIndex] for EPUBs.
+ */
+export interface OutlineEntry {
+  title: string;
+  /** Where the heading starts, null if unknown */
+  start: number[] | null;
+  children: OutlineEntry[];
+}
+
+/** A heading with the items placed under it */
+export interface OutlineSection<T> {
+  title: string;
+  items: T[];
+  children: OutlineSection<T>[];
+}
+
+/** Items placed in an outline */
+export interface OutlineGroups<T> {
+  /** Items before the first heading or without a known location */
+  unplaced: T[];
+  sections: OutlineSection<T>[];
+}
+
+/** Reads a file inside an EPUB by its path in the archive, null if absent */
+type EpubReader = (path: string) => Promise<string | null>;
+
+// Type for the XPCOM zip reader class (not in Components.classes)
+interface ZipReaderClass {
+  createInstance: (iid: nsJSIID<nsIZipReader>) => nsIZipReader;
+}
+
+/** Outlines kept in memory, so each export does not re-read the file */
+const CACHE_SIZE = 20;
+
+function compareStart(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const x = a[i] ?? 0;
+    const y = b[i] ?? 0;
+    if (x !== y) return x < y ? -1 : 1;
+  }
+  return 0;
+}
+
+/** Descendant elements with a (lowercase) tag name, depth-first */
+function findElements(node: HtmlElement, tag: string): HtmlElement[] {
+  const found: HtmlElement[] = [];
+  for (const child of node.children) {
+    if (typeof child === "string") continue;
+    if (child.tag === tag) found.push(child);
+    found.push(...findElements(child, tag));
+  }
+  return found;
+}
+
+function childElements(node: HtmlElement, tag: string): HtmlElement[] {
+  return node.children.filter(
+    (child): child is HtmlElement =>
+      typeof child !== "string" && child.tag === tag,
+  );
+}
+
+/**
+ * Resolve an href against the archive path of the file it appears in,
+ * without the fragment.
+ */
+function resolveHref(base: string, href: string): string {
+  const parts = base.split("/").slice(0, -1);
+  let path = href.split("#")[0];
+  try {
+    path = decodeURIComponent(path);
+  } catch {
+    // Keep as written
+  }
+  for (const part of path.split("/")) {
+    if (part === "..") parts.pop();
+    else if (part && part !== ".") parts.push(part);
+  }
+  return parts.join("/");
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const Blob = ztoolkit.getGlobal("Blob");
+  const DecompressionStream = ztoolkit.getGlobal("DecompressionStream");
+  const Response = ztoolkit.getGlobal("Response");
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export class Outline {
+  /** Outlines by file path, with the file's modification time */
+  private static cache = new Map<
+    string,
+    { modified: number; entries: OutlineEntry[] }
+  >();
+
+  /**
+   * Outline of a PDF or EPUB attachment, empty if it has none or the file
+   * is missing. Throws if the file cannot be read, e.g. a PDF that needs a
+   * password.
+   * Outlines are cached until the file changes.
+   */
+  static async load(attachment: Zotero.Item): Promise<OutlineEntry[]> {
+    const path = await attachment.getFilePathAsync();
+    if (!path) return [];
+    const { lastModified: modified = 0 } = await IOUtils.stat(path);
+    const cached = this.cache.get(path);
+    if (cached?.modified === modified) return cached.entries;
+
+    let entries: OutlineEntry[] = [];
+    switch (attachment.attachmentContentType) {
+      case PDF_CONTENT_TYPE:
+        entries = this.fromPdf(
+          await PdfOutline.read(
+            await IOUtils.read(path),
+            inflate,
+            (ztoolkit.getGlobal("crypto") as Crypto).subtle,
+          ),
+        );
+        break;
+      case EPUB_CONTENT_TYPE:
+        entries = await this.loadEpub(path);
+        break;
+    }
+
+    this.cache.delete(path);
+    this.cache.set(path, { modified, entries });
+    if (this.cache.size > CACHE_SIZE) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return entries;
+  }
+
+  /**
+   * Where an annotation is, comparable with OutlineEntry.start; null if
+   * unknown. PDF annotations without a top sort after headings on their
+   * page.
+   */
+  static locate(
+    annotation: ZoteroAnnotation,
+    contentType: string,
+  ): number[] | null {
+    if (contentType === PDF_CONTENT_TYPE) {
+      const pageIndex = AnnotationLocation.pageIndex(annotation);
+      if (pageIndex === null) return null;
+      const top = AnnotationLocation.top(annotation);
+      return [pageIndex, top === null ? Infinity : -top];
+    }
+    if (contentType === EPUB_CONTENT_TYPE) {
+      const spineIndex = AnnotationLocation.spineIndex(annotation);
+      return spineIndex === null ? null : [spineIndex];
+    }
+    return null;
+  }
+
+  /**
+   * Place items under the outline, keeping their order. Only headings with
+   * items (or with descendants that have items) are kept; headings deeper
+   * than maxDepth are merged into their ancestor.
+   */
+  static group<T>(
+    outline: OutlineEntry[],
+    items: T[],
+    locate: (item: T) => number[] | null,
+    maxDepth: number = Infinity,
+  ): OutlineGroups<T> {
+    // Headings in document order, with the index of their parent
+    const headings: Array<{ entry: OutlineEntry; parent: number }> = [];
+    const flatten = (
+      entries: OutlineEntry[],
+      parent: number,
+      depth: number,
+    ) => {
+      if (depth >= maxDepth) return;
+      for (const entry of entries) {
+        headings.push({ entry, parent });
+        flatten(entry.children, headings.length - 1, depth + 1);
+      }
+    };
+    flatten(outline, -1, 0);
+
+    const unplaced: T[] = [];
+    const sections = new Map<number, OutlineSection<T>>();
+    const roots: number[] = [];
+    const childIndexes = new Map<number, number[]>();
+    const section = (index: number): OutlineSection<T> => {
+      let found = sections.get(index);
+      if (!found) {
+        const { title } = headings[index].entry;
+        found = { title, items: [], children: [] };
+        sections.set(index, found);
+        const { parent } = headings[index];
+        if (parent < 0) {
+          roots.push(index);
+        } else {
+          section(parent);
+          const siblings = childIndexes.get(parent) ?? [];
+          siblings.push(index);
+          childIndexes.set(parent, siblings);
+        }
+      }
+      return found;
+    };
+
+    for (const item of items) {
+      const location = locate(item);
+      let best = -1;
+      if (location) {
+        // Ties go to the later heading, e.g. a section on its chapter's page
+        headings.forEach(({ entry: { start } }, index) => {
+          if (
+            start &&
+            compareStart(start, location) <= 0 &&
+            (best < 0 || compareStart(start, headings[best].entry.start!) >= 0)
+          ) {
+            best = index;
+          }
+        });
+      }
+      if (best < 0) unplaced.push(item);
+      else section(best).items.push(item);
+    }
+
+    // Children in outline order, whatever order items were placed in
+    const ordered = (indexes: number[]): OutlineSection<T>[] =>
+      indexes
+        .sort((a, b) => a - b)
+        .map((index) => {
+          const found = sections.get(index)!;
+          found.children = ordered(childIndexes.get(index) ?? []);
+          return found;
+        });
+    return { unplaced, sections: ordered(roots) };
+  }
+
+  /**
+   * Outline of an EPUB from its navigation document or NCX, read with the
+   * given reader.
+   */
+  static async parseEpub(read: EpubReader): Promise<OutlineEntry[]> {
+    const container = await read("META-INF/container.xml");
+    const rootfile = container
+      ? findElements(parseHtml(container, "application/xml"), "rootfile")[0]
+          ?.attrs["full-path"]
+      : null;
+    const packageXml = rootfile ? await read(rootfile) : null;
+    if (!rootfile || !packageXml) return [];
+
+    const opf = parseHtml(packageXml, "application/xml");
+    const manifest = new Map<
+      string,
+      { path: string; attrs: Record<string, string> }
+    >();
+    for (const item of findElements(opf, "item")) {
+      if (item.attrs.id && item.attrs.href) {
+        manifest.set(item.attrs.id, {
+          path: resolveHref(rootfile, item.attrs.href),
+          attrs: item.attrs,
+        });
+      }
+    }
+    const spine = new Map<string, number>();
+    const spineElement = findElements(opf, "spine")[0];
+    findElements(opf, "itemref").forEach((itemref) => {
+      const path = manifest.get(itemref.attrs.idref)?.path;
+      if (path && !spine.has(path)) spine.set(path, spine.size);
+    });
+
+    // Only the first heading pointing into a file can be placed, so
+    // parents are created before their children
+    const placed = new Set<string>();
+    const entry = (
+      title: string,
+      base: string,
+      href: string | undefined,
+    ): OutlineEntry => {
+      const path = href ? resolveHref(base, href) : null;
+      const spineIndex = path ? spine.get(path) : undefined;
+      let start: number[] | null = null;
+      if (path && spineIndex !== undefined && !placed.has(path)) {
+        placed.add(path);
+        start = [spineIndex];
+      }
+      return {
+        title: title.replace(/\s+/g, " ").trim() || "Untitled",
+        start,
+        children: [],
+      };
+    };
+
+    const items = Array.from(manifest.values());
+    const nav = items.find((item) =>
+      (item.attrs.properties || "").split(/\s+/).includes("nav"),
+    );
+    const navXml = nav ? await read(nav.path) : null;
+    if (nav && navXml) {
+      const navs = findElements(parseHtml(navXml, "application/xml"), "nav");
+      const toc =
+        navs.find((n) =>
+          (n.attrs["epub:type"] || "").split(/\s+/).includes("toc"),
+        ) ?? navs[0];
+      const list = toc && findElements(toc, "ol")[0];
+      // <li><a href>title</a> or <span>title</span> <ol>...</ol></li>
+      const readList = (ol: HtmlElement): OutlineEntry[] =>
+        childElements(ol, "li").map((li) => {
+          const label =
+            childElements(li, "a")[0] ?? childElements(li, "span")[0];
+          const heading = entry(
+            label ? textContent(label) : "",
+            nav.path,
+            label?.attrs.href,
+          );
+          const sublist = childElements(li, "ol")[0];
+          if (sublist) heading.children = readList(sublist);
+          return heading;
+        });
+      if (list) return readList(list);
+    }
+
+    const ncx =
+      manifest.get(spineElement?.attrs.toc ?? "") ??
+      items.find(
+        (item) => item.attrs["media-type"] === "application/x-dtbncx+xml",
+      );
+    const ncxXml = ncx ? await read(ncx.path) : null;
+    if (!ncx || !ncxXml) return [];
+    const navMap = findElements(
+      parseHtml(ncxXml, "application/xml"),
+      "navmap",
+    )[0];
+    const readPoints = (parent: HtmlElement): OutlineEntry[] =>
+      childElements(parent, "navpoint").map((point) => {
+        const label = childElements(point, "navlabel")[0];
+        const heading = entry(
+          label ? textContent(label) : "",
+          ncx.path,
+          childElements(point, "content")[0]?.attrs.src,
+        );
+        heading.children = readPoints(point);
+        return heading;
+      });
+    return navMap ? readPoints(navMap) : [];
+  }
+
+  private static fromPdf(entries: PdfOutlineEntry[]): OutlineEntry[] {
+    return entries.map((entry) => ({
+      title: entry.title || "Untitled",
+      start:
+        entry.pageIndex === null
+          ? null
+          : [entry.pageIndex, entry.top === null ? -Infinity : -entry.top],
+      children: this.fromPdf(entry.children),
+    }));
+  }
+
+  private static async loadEpub(path: string): Promise<OutlineEntry[]> {
+    const zipReader = (
+      Components.classes as unknown as Record<string, ZipReaderClass>
+    )["@mozilla.org/libjar/zip-reader;1"].createInstance(
+      Components.interfaces.nsIZipReader,
+    );
+    zipReader.open(Zotero.File.pathToFile(path));
+    try {
+      return await this.parseEpub(async (entry) =>
+        zipReader.hasEntry(entry)
+          ? ((await Zotero.File.getContentsAsync(
+              zipReader.getInputStream(entry),
+              "utf-8",
+            )) as string)
+          : null,
+      );
+    } finally {
+      zipReader.close();
+    }
+  }
+}
@@ -0,0 +1,980 @@
+/**
+ * Reads the outline (bookmarks) of a PDF file.
+ *
+ * Only what the outline needs is parsed: cross-reference tables and
+ * streams (following /Prev), object streams, FlateDecode with PNG
+ * predictors, the page tree, and destinations given directly, by name
+ * (/Dests) or through the /Names tree. Files whose cross-references are
+ * broken are scanned for objects instead. Encrypted files are read when
+ * they open without a password (see pdfSecurity.ts).
+ */
+
+import { CryptMethod, PdfEncryption, PdfSecurity } from "./pdfSecurity";
+
+export interface PdfOutlineEntry {
+  title: string;
+  /** 0-based page index of the destination, null if not resolved */
+  pageIndex: number | null;
+  /** Top of the destination in PDF points (y grows upwards), if given */
+  top: number | null;
+  children: PdfOutlineEntry[];
+}
+
+/** Decompresses zlib (FlateDecode) data */
+export type Inflate = (data: Uint8Array) => Promise<Uint8Array>;
+
+class PdfName {
+  constructor(readonly name: string) {}
+}
+
+class PdfRef {
+  constructor(
+    readonly num: number,
+    readonly gen: number,
+  ) {}
+}
+
+class PdfString {
+  constructor(readonly bytes: Uint8Array) {}
+}
+
+class PdfStream {
+  constructor(
+    readonly dict: PdfDict,
+    readonly data: Uint8Array,
+  ) {}
+}
+
+type PdfDict = Map<string, PdfValue>;
+
+type PdfValue =
+  | number
+  | boolean
+  | null
+  | PdfName
+  | PdfRef
+  | PdfString
+  | PdfStream
+  | PdfDict
+  | PdfValue[];
+
+interface XrefEntry {
+  /** Byte offset and generation of an uncompressed object */
+  offset?: number;
+  gen?: number;
+  /** Object stream holding a compressed object, and its index there */
+  stream?: number;
+  index?: number;
+}
+
+/** Outline items read at most, against cyclic or runaway outlines */
+const MAX_OUTLINE_ITEMS = 10000;
+
+const WHITESPACE = new Set([0, 9, 10, 12, 13, 32]);
+const DELIMITERS = new Set(Array.from("()<>[]{}/%", (c) => c.charCodeAt(0)));
+
+/** PDFDocEncoding characters that differ from Latin-1 (0x80-0xA0) */
+const PDF_DOC_ENCODING: Record<number, string> = {
+  0x80: "•",
+  0x81: "†",
+  0x82: "‡",
+  0x83: "…",
+  0x84: "—",
+  0x85: "–",
+  0x86: "ƒ",
+  0x87: "⁄",
+  0x88: "‹",
+  0x89: "›",
+  0x8a: "−",
+  0x8b: "‰",
+  0x8c: "„",
+  0x8d: "“",
+  0x8e: "”",
+  0x8f: "‘",
+  0x90: "’",
+  0x91: "‚",
+  0x92: "™",
+  0x93: "ﬁ",
+  0x94: "ﬂ",
+  0x95: "Ł",
+  0x96: "Œ",
+  0x97: "Š",
+  0x98: "Ÿ",
+  0x99: "Ž",
+  0x9a: "ı",
+  0x9b: "ł",
+  0x9c: "œ",
+  0x9d: "š",
+  0x9e: "ž",
+  0xa0: "€",
+};
+
+function latin1(bytes: Uint8Array): string {
+  let text = "";
+  for (let i = 0; i < bytes.length; i += 0x2000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x2000));
+  }
+  return text;
+}
+
+/**
+ * Decode a PDF text string: UTF-16BE or UTF-8 with a byte order mark,
+ * otherwise PDFDocEncoding.
+ */
+export function decodePdfText(bytes: Uint8Array): string {
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    let text = "";
+    for (let i = 2; i + 1 < bytes.length; i += 2) {
+      text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+    }
+    return text;
+  }
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return new TextDecoder().decode(bytes.subarray(3));
+  }
+  return Array.from(
+    bytes,
+    (b) => PDF_DOC_ENCODING[b] ?? String.fromCharCode(b),
+  ).join("");
+}
+
+function indexOf(bytes: Uint8Array, text: string, from: number): number {
+  const first = text.charCodeAt(0);
+  for (let i = bytes.indexOf(first, from); i >= 0;) {
+    let j = 1;
+    while (j < text.length && bytes[i + j] === text.charCodeAt(j)) j++;
+    if (j === text.length) return i;
+    i = bytes.indexOf(first, i + 1);
+  }
+  return -1;
+}
+
+/**
+ * Parser for PDF objects at a byte position.
+ */
+class PdfParser {
+  constructor(
+    private bytes: Uint8Array,
+    public pos: number = 0,
+  ) {}
+
+  skipSpace(): void {
+    const { bytes } = this;
+    while (this.pos < bytes.length) {
+      const c = bytes[this.pos];
+      if (WHITESPACE.has(c)) {
+        this.pos++;
+      } else if (c === 0x25) {
+        // Comment to the end of the line
+        while (
+          this.pos < bytes.length &&
+          bytes[this.pos] !== 10 &&
+          bytes[this.pos] !== 13
+        ) {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  /** Next keyword or number, after whitespace */
+  word(): string {
+    this.skipSpace();
+    const start = this.pos;
+    while (
+      this.pos < this.bytes.length &&
+      !WHITESPACE.has(this.bytes[this.pos]) &&
+      !DELIMITERS.has(this.bytes[this.pos])
+    ) {
+      this.pos++;
+    }
+    return latin1(this.bytes.subarray(start, this.pos));
+  }
+
+  /** Next integer, or an error */
+  integer(): number {
+    const word = this.word();
+    if (!/^\d+$/.test(word)) throw new Error(`Expected integer, got "${word}"`);
+    return parseInt(word);
+  }
+
+  parse(): PdfValue {
+    this.skipSpace();
+    const { bytes } = this;
+    if (this.pos >= bytes.length) throw new Error("Unexpected end of data");
+    const c = bytes[this.pos];
+
+    if (c === 0x5b) {
+      // [ array ]
+      this.pos++;
+      const array: PdfValue[] = [];
+      for (;;) {
+        this.skipSpace();
+        if (bytes[this.pos] === 0x5d) {
+          this.pos++;
+          return array;
+        }
+        array.push(this.parse());
+      }
+    }
+    if (c === 0x3c && bytes[this.pos + 1] === 0x3c) return this.parseDict();
+    if (c === 0x3c) return this.parseHexString();
+    if (c === 0x28) return this.parseLiteralString();
+    if (c === 0x2f) return this.parseName();
+
+    const word = this.word();
+    if (word === "true") return true;
+    if (word === "false") return false;
+    if (word === "null") return null;
+    const num = word ? Number(word) : NaN;
+    if (isNaN(num)) {
+      throw new Error(`Unexpected token at ${this.pos}: "${word}"`);
+    }
+
+    // "num gen R" is a reference
+    if (/^\d+$/.test(word)) {
+      const start = this.pos;
+      const gen = this.word();
+      if (/^\d+$/.test(gen) && this.word() === "R") {
+        return new PdfRef(num, parseInt(gen));
+      }
+      this.pos = start;
+    }
+    return num;
+  }
+
+  private parseDict(): PdfDict | PdfStream {
+    const { bytes } = this;
+    this.pos += 2;
+    const dict: PdfDict = new Map();
+    for (;;) {
+      this.skipSpace();
+      if (bytes[this.pos] === 0x3e && bytes[this.pos + 1] === 0x3e) {
+        this.pos += 2;
+        break;
+      }
+      const key = this.parse();
+      if (!(key instanceof PdfName)) throw new Error("Expected name as key");
+      dict.set(key.name, this.parse());
+    }
+
+    const end = this.pos;
+    if (this.word() !== "stream") {
+      this.pos = end;
+      return dict;
+    }
+    // Data starts after the end of line following "stream"
+    if (bytes[this.pos] === 13) this.pos++;
+    if (bytes[this.pos] === 10) this.pos++;
+    const start = this.pos;
+    const length = dict.get("Length");
+    let stop = typeof length === "number" ? start + length : -1;
+    if (stop < 0 || !this.endsStream(stop)) {
+      // Indirect or wrong length: the data ends before "endstream"
+      stop = indexOf(bytes, "endstream", start);
+      if (stop < 0) throw new Error("Unterminated stream");
+      if (bytes[stop - 1] === 10) stop--;
+      if (bytes[stop - 1] === 13) stop--;
+    }
+    this.pos = indexOf(bytes, "endstream", stop) + "endstream".length;
+    return new PdfStream(dict, bytes.subarray(start, stop));
+  }
+
+  /** Whether "endstream" follows a position, after whitespace */
+  private endsStream(pos: number): boolean {
+    while (WHITESPACE.has(this.bytes[pos])) pos++;
+    return indexOf(this.bytes, "endstream", pos) === pos;
+  }
+
+  private parseName(): PdfName {
+    this.pos++;
+    const start = this.pos;
+    while (
+      this.pos < this.bytes.length &&
+      !WHITESPACE.has(this.bytes[this.pos]) &&
+      !DELIMITERS.has(this.bytes[this.pos])
+    ) {
+      this.pos++;
+    }
+    return new PdfName(
+      latin1(this.bytes.subarray(start, this.pos)).replace(
+        /#([\da-fA-F]{2})/g,
+        (_, hex: string) => String.fromCharCode(parseInt(hex, 16)),
+      ),
+    );
+  }
+
+  private parseHexString(): PdfString {
+    const end = this.bytes.indexOf(0x3e, this.pos);
+    if (end < 0) throw new Error("Unterminated hex string");
+    let hex = latin1(this.bytes.subarray(this.pos + 1, end)).replace(
+      /[^\da-fA-F]/g,
+      "",
+    );
+    this.pos = end + 1;
+    if (hex.length % 2) hex += "0";
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    }
+    return new PdfString(bytes);
+  }
+
+  private parseLiteralString(): PdfString {
+    const { bytes } = this;
+    const out: number[] = [];
+    let depth = 1;
+    this.pos++;
+    while (this.pos < bytes.length) {
+      const c = bytes[this.pos++];
+      if (c === 0x28) {
+        depth++;
+      } else if (c === 0x29) {
+        if (--depth === 0) break;
+      } else if (c === 0x5c) {
+        const e = bytes[this.pos++];
+        const escaped: Record<number, number> = {
+          0x6e: 10,
+          0x72: 13,
+          0x74: 9,
+          0x62: 8,
+          0x66: 12,
+        };
+        if (e in escaped) {
+          out.push(escaped[e]);
+        } else if (e >= 0x30 && e <= 0x37) {
+          // Up to three octal digits
+          let code = e - 0x30;
+          for (let i = 0; i < 2; i++) {
+            const d = bytes[this.pos];
+            if (d < 0x30 || d > 0x37) break;
+            code = code * 8 + d - 0x30;
+            this.pos++;
+          }
+          out.push(code & 0xff);
+        } else if (e === 13 || e === 10) {
+          // Line continuation
+          if (e === 13 && bytes[this.pos] === 10) this.pos++;
+        } else {
+          out.push(e);
+        }
+        continue;
+      }
+      out.push(c);
+    }
+    return new PdfString(Uint8Array.from(out));
+  }
+}
+
+/**
+ * PNG predictor (Predictor >= 10) used by cross-reference and object
+ * streams.
+ */
+function unpredict(data: Uint8Array, parms: PdfDict | null): Uint8Array {
+  const param = (key: string, fallback: number) => {
+    const value = parms?.get(key);
+    return typeof value === "number" ? value : fallback;
+  };
+  const predictor = param("Predictor", 1);
+  if (predictor < 10) {
+    if (predictor !== 1) throw new Error(`Unsupported predictor ${predictor}`);
+    return data;
+  }
+
+  const bits = param("Colors", 1) * param("BitsPerComponent", 8);
+  const pixelBytes = Math.max(1, Math.ceil(bits / 8));
+  const rowBytes = Math.ceil((bits * param("Columns", 1)) / 8);
+  const rows = Math.floor(data.length / (rowBytes + 1));
+  const out = new Uint8Array(rows * rowBytes);
+
+  for (let r = 0; r < rows; r++) {
+    const type = data[r * (rowBytes + 1)];
+    const row = r * rowBytes;
+    for (let i = 0; i < rowBytes; i++) {
+      const raw = data[r * (rowBytes + 1) + 1 + i];
+      const left = i >= pixelBytes ? out[row + i - pixelBytes] : 0;
+      const up = r > 0 ? out[row - rowBytes + i] : 0;
+      const upLeft =
+        r > 0 && i >= pixelBytes ? out[row - rowBytes + i - pixelBytes] : 0;
+      let value = raw;
+      if (type === 1) value += left;
+      else if (type === 2) value += up;
+      else if (type === 3) value += (left + up) >> 1;
+      else if (type === 4) {
+        const p = left + up - upLeft;
+        const pa = Math.abs(p - left);
+        const pb = Math.abs(p - up);
+        const pc = Math.abs(p - upLeft);
+        value += pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+      }
+      out[row + i] = value & 0xff;
+    }
+  }
+  return out;
+}
+
+class PdfDocument {
+  private xref = new Map<number, XrefEntry>();
+  private trailer: PdfDict = new Map();
+  private objects = new Map<number, Promise<PdfValue>>();
+  private objectStreams = new Map<
+    number,
+    Promise<{ data: Uint8Array; offsets: number[] }>
+  >();
+
+  private security: PdfSecurity | null = null;
+  /** Object number of the /Encrypt dictionary, which is not encrypted */
+  private encryptNum: number | null = null;
+
+  constructor(
+    private bytes: Uint8Array,
+    private inflate: Inflate,
+    private subtle: SubtleCrypto,
+  ) {}
+
+  async load(): Promise<void> {
+    if (!(await this.loadXref())) {
+      this.xref.clear();
+      this.trailer = new Map();
+      this.objects.clear();
+      this.objectStreams.clear();
+      await this.reconstruct();
+    }
+
+    const encrypt = this.trailer.get("Encrypt");
+    if (encrypt === undefined) return;
+    this.encryptNum = encrypt instanceof PdfRef ? encrypt.num : null;
+    this.security = await PdfSecurity.open(
+      await this.encryption(encrypt),
+      this.subtle,
+    );
+    // Objects read so far were not decrypted
+    this.objects.clear();
+    this.objectStreams.clear();
+  }
+
+  /** Read the cross-references; false if they do not lead to the catalog */
+  private async loadXref(): Promise<boolean> {
+    try {
+      await this.readXref(this.startXref());
+      return (await this.catalog()) !== null;
+    } catch (e) {
+      // Reconstruct instead
+      return false;
+    }
+  }
+
+  async catalog(): Promise<PdfDict | null> {
+    const catalog = await this.resolveDict(this.trailer.get("Root") ?? null);
+    const type = catalog?.get("Type");
+    return type instanceof PdfName && type.name === "Catalog" ? catalog : null;
+  }
+
+  async resolve(value: PdfValue | undefined): Promise<PdfValue> {
+    for (let i = 0; value instanceof PdfRef && i < 32; i++) {
+      value = await this.getObject(value.num);
+    }
+    return value instanceof PdfRef || value === undefined ? null : value;
+  }
+
+  async resolveDict(value: PdfValue | undefined): Promise<PdfDict | null> {
+    const resolved = await this.resolve(value);
+    if (resolved instanceof PdfStream) return resolved.dict;
+    return resolved instanceof Map ? resolved : null;
+  }
+
+  private getObject(num: number): Promise<PdfValue> {
+    let object = this.objects.get(num);
+    if (!object) {
+      object = this.loadObject(num);
+      this.objects.set(num, object);
+    }
+    return object;
+  }
+
+  private async loadObject(num: number): Promise<PdfValue> {
+    const entry = this.xref.get(num);
+    if (entry?.offset !== undefined) {
+      const object = this.parseIndirect(entry.offset, num);
+      return this.security && num !== this.encryptNum
+        ? this.decrypt(object, num, entry.gen ?? 0)
+        : object;
+    }
+    if (entry?.stream !== undefined) {
+      const { data, offsets } = await this.objectStream(entry.stream);
+      const offset = offsets[entry.index ?? -1];
+      return offset === undefined ? null : new PdfParser(data, offset).parse();
+    }
+    return null;
+  }
+
+  /** The object "num gen obj ... endobj" at an offset */
+  private parseIndirect(offset: number, num?: number): PdfValue {
+    const parser = new PdfParser(this.bytes, offset);
+    const found = parser.integer();
+    parser.integer();
+    if (parser.word() !== "obj" || (num !== undefined && found !== num)) {
+      return null;
+    }
+    return parser.parse();
+  }
+
+  /**
+   * Decrypt the strings and stream data of an indirect object. Objects in
+   * object streams are decrypted with their stream.
+   */
+  private async decrypt(
+    value: PdfValue,
+    num: number,
+    gen: number,
+  ): Promise<PdfValue> {
+    const security = this.security!;
+    if (value instanceof PdfString) {
+      return new PdfString(await security.decryptString(value.bytes, num, gen));
+    }
+    if (value instanceof PdfStream) {
+      const type = value.dict.get("Type");
+      if (type instanceof PdfName && type.name === "XRef") return value;
+      return new PdfStream(
+        (await this.decrypt(value.dict, num, gen)) as PdfDict,
+        await security.decryptStream(value.data, num, gen),
+      );
+    }
+    if (Array.isArray(value)) {
+      return Promise.all(value.map((v) => this.decrypt(v, num, gen)));
+    }
+    if (value instanceof Map) {
+      const dict: PdfDict = new Map();
+      for (const [key, v] of value) {
+        dict.set(key, await this.decrypt(v, num, gen));
+      }
+      return dict;
+    }
+    return value;
+  }
+
+  /** Entries of the /Encrypt dictionary, with the file ID */
+  private async encryption(value: PdfValue): Promise<PdfEncryption> {
+    const dict = await this.resolveDict(value);
+    if (!dict) throw new Error("Invalid /Encrypt dictionary");
+    const get = (from: PdfDict | null | undefined, key: string) =>
+      this.resolve(from?.get(key));
+    const name = async (from: PdfDict | null | undefined, key: string) => {
+      const v = await get(from, key);
+      return v instanceof PdfName ? v.name : null;
+    };
+    const num = async (key: string, fallback: number) => {
+      const v = await get(dict, key);
+      return typeof v === "number" ? v : fallback;
+    };
+    const bytes = async (from: PdfValue | undefined) => {
+      const v = await this.resolve(from);
+      return v instanceof PdfString ? v.bytes : new Uint8Array();
+    };
+
+    // Version 4 and later name a crypt filter for strings and streams
+    const version = await num("V", 0);
+    const filters = await this.resolveDict(dict.get("CF"));
+    const method = async (key: string): Promise<CryptMethod> => {
+      if (version < 4) return "V2";
+      const filter = (await name(dict, key)) ?? "Identity";
+      if (filter === "Identity") return "None";
+      const cfm = await name(
+        await this.resolveDict(filters?.get(filter)),
+        "CFM",
+      );
+      return cfm === "V2" || cfm === "AESV2" || cfm === "AESV3" ? cfm : "None";
+    };
+
+    const id = await this.resolve(this.trailer.get("ID"));
+    return {
+      filter: (await name(dict, "Filter")) ?? "",
+      version,
+      revision: await num("R", 0),
+      length: await num("Length", version >= 4 ? 128 : 40),
+      owner: await bytes(dict.get("O")),
+      user: await bytes(dict.get("U")),
+      userKey: await bytes(dict.get("UE")),
+      permissions: await num("P", 0),
+      encryptMetadata: (await get(dict, "EncryptMetadata")) !== false,
+      stringMethod: await method("StrF"),
+      streamMethod: await method("StmF"),
+      id: await bytes(Array.isArray(id) ? id[0] : null),
+    };
+  }
+
+  private objectStream(
+    num: number,
+  ): Promise<{ data: Uint8Array; offsets: number[] }> {
+    let stream = this.objectStreams.get(num);
+    if (!stream) {
+      stream = (async () => {
+        const object = await this.getObject(num);
+        if (!(object instanceof PdfStream)) {
+          throw new Error(`Object stream ${num} not found`);
+        }
+        const data = await this.decode(object);
+        const count = object.dict.get("N");
+        const first = object.dict.get("First");
+        if (typeof count !== "number" || typeof first !== "number") {
+          throw new Error(`Invalid object stream ${num}`);
+        }
+        // Header: pairs of object number and offset from /First
+        const header = new PdfParser(data);
+        const offsets: number[] = [];
+        for (let i = 0; i < count; i++) {
+          header.integer();
+          offsets.push(first + header.integer());
+        }
+        return { data, offsets };
+      })();
+      this.objectStreams.set(num, stream);
+    }
+    return stream;
+  }
+
+  private async decode(stream: PdfStream): Promise<Uint8Array> {
+    const filter = await this.resolve(stream.dict.get("Filter"));
+    const parms = await this.resolve(stream.dict.get("DecodeParms"));
+    const filters = Array.isArray(filter) ? filter : filter ? [filter] : [];
+    let data = stream.data;
+    for (let i = 0; i < filters.length; i++) {
+      const current = filters[i];
+      const name = current instanceof PdfName ? current.name : "";
+      if (name !== "FlateDecode" && name !== "Fl") {
+        throw new Error(`Unsupported filter ${name}`);
+      }
+      data = unpredict(
+        await this.inflate(data),
+        await this.resolveDict(Array.isArray(parms) ? parms[i] : parms),
+      );
+    }
+    return data;
+  }
+
+  private startXref(): number {
+    const tail = latin1(this.bytes.subarray(-1024));
+    const match = tail.match(/startxref\s+(\d+)\s*(?:%%EOF)?\s*$/);
+    if (!match) throw new Error("startxref not found");
+    return parseInt(match[1]);
+  }
+
+  /**
+   * Read cross-reference sections from the newest back, so the newest
+   * entry for each object wins.
+   */
+  private async readXref(offset: number): Promise<void> {
+    const seen = new Set<number>();
+    let next: number | null = offset;
+    while (next !== null && !seen.has(next)) {
+      seen.add(next);
+      const parser: PdfParser = new PdfParser(this.bytes, next);
+      const dict: PdfDict =
+        parser.word() === "xref"
+          ? this.readXrefTable(parser)
+          : await this.readXrefStream(next);
+
+      for (const [key, value] of dict) {
+        if (!this.trailer.has(key)) this.trailer.set(key, value);
+      }
+      // Hybrid files list compressed objects in an extra stream
+      const xrefStream = dict.get("XRefStm");
+      if (typeof xrefStream === "number" && !seen.has(xrefStream)) {
+        seen.add(xrefStream);
+        await this.readXrefStream(xrefStream);
+      }
+      const prev: PdfValue | undefined = dict.get("Prev");
+      next = typeof prev === "number" ? prev : null;
+    }
+  }
+
+  private readXrefTable(parser: PdfParser): PdfDict {
+    for (;;) {
+      const word = parser.word();
+      if (word === "trailer") {
+        const trailer = parser.parse();
+        if (!(trailer instanceof Map)) throw new Error("Invalid trailer");
+        return trailer;
+      }
+      if (!/^\d+$/.test(word)) throw new Error("Invalid xref table");
+      const start = parseInt(word);
+      const count = parser.integer();
+      for (let i = 0; i < count; i++) {
+        const offset = parser.integer();
+        const gen = parser.integer();
+        const type = parser.word();
+        if (type === "n" && !this.xref.has(start + i)) {
+          this.xref.set(start + i, { offset, gen });
+        }
+      }
+    }
+  }
+
+  private async readXrefStream(offset: number): Promise<PdfDict> {
+    const stream = this.parseIndirect(offset);
+    if (!(stream instanceof PdfStream)) throw new Error("Invalid xref stream");
+    const widths = stream.dict.get("W");
+    const size = stream.dict.get("Size");
+    if (
+      !Array.isArray(widths) ||
+      widths.length < 3 ||
+      !widths.every((w) => typeof w === "number")
+    ) {
+      throw new Error("Invalid xref stream widths");
+    }
+    const [w0, w1, w2] = widths as number[];
+    const index = stream.dict.get("Index");
+    const ranges = (
+      Array.isArray(index) ? index : [0, typeof size === "number" ? size : 0]
+    ) as number[];
+
+    const data = await this.decode(stream);
+    let pos = 0;
+    const field = (width: number, fallback: number) => {
+      if (width === 0) return fallback;
+      let value = 0;
+      for (let i = 0; i < width; i++) value = value * 256 + data[pos++];
+      return value;
+    };
+    for (let r = 0; r + 1 < ranges.length; r += 2) {
+      for (let i = 0; i < ranges[r + 1]; i++) {
+        if (pos + w0 + w1 + w2 > data.length) break;
+        const num = ranges[r] + i;
+        const type = field(w0, 1);
+        const a = field(w1, 0);
+        const b = field(w2, 0);
+        if (this.xref.has(num)) continue;
+        if (type === 1) this.xref.set(num, { offset: a, gen: b });
+        else if (type === 2) this.xref.set(num, { stream: a, index: b });
+      }
+    }
+    return stream.dict;
+  }
+
+  /**
+   * Rebuild the cross-references by scanning for "num gen obj", taking
+   * the catalog from trailers, xref streams or /Type /Catalog objects.
+   */
+  private async reconstruct(): Promise<void> {
+    const text = latin1(this.bytes);
+    const pattern = /(?:^|[^\d])(\d+)\s+(\d+)\s+obj\b/g;
+    const candidates: Array<{ num: number; gen: number; offset: number }> = [];
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      const offset = match.index + match[0].indexOf(match[1]);
+      const num = parseInt(match[1]);
+      this.xref.set(num, { offset, gen: parseInt(match[2]) });
+      const head = text.slice(offset, offset + 200);
+      if (/\/Type\s*\/(Catalog|XRef)\b/.test(head)) {
+        candidates.push({ num, gen: parseInt(match[2]), offset });
+      }
+    }
+
+    for (const trailer of text.matchAll(/trailer\s*<</g)) {
+      try {
+        const dict = new PdfParser(this.bytes, trailer.index! + 7).parse();
+        if (dict instanceof Map && dict.has("Root")) this.trailer = dict;
+      } catch {
+        // Damaged trailer
+      }
+    }
+    for (const { num, gen, offset } of candidates.reverse()) {
+      try {
+        const object = this.parseIndirect(offset, num);
+        if (object instanceof PdfStream) {
+          const dict = await this.readXrefStream(offset);
+          if (!this.trailer.has("Root") && dict.has("Root")) {
+            this.trailer = dict;
+          }
+        } else if (!this.trailer.has("Root")) {
+          this.trailer.set("Root", new PdfRef(num, gen));
+        }
+      } catch {
+        // Damaged object
+      }
+    }
+  }
+}
+
+export class PdfOutline {
+  /**
+   * Outline of a PDF file, empty if it has none. Throws if the file needs
+   * a password or cannot be parsed.
+   */
+  static async read(
+    bytes: Uint8Array,
+    inflate: Inflate,
+    subtle: SubtleCrypto,
+  ): Promise<PdfOutlineEntry[]> {
+    const pdf = new PdfDocument(bytes, inflate, subtle);
+    await pdf.load();
+    const catalog = await pdf.catalog();
+    if (!catalog) return [];
+
+    const outlines = await pdf.resolveDict(catalog.get("Outlines"));
+    if (!outlines) return [];
+    const pages = await this.pageIndexes(pdf, catalog.get("Pages") ?? null);
+    const first = outlines.get("First");
+    return this.readItems(pdf, catalog, pages, first, new Set());
+  }
+
+  /** Items from a first child along its /Next chain, with their children */
+  private static async readItems(
+    pdf: PdfDocument,
+    catalog: PdfDict,
+    pages: Map<number, number>,
+    first: PdfValue | undefined,
+    seen: Set<number>,
+  ): Promise<PdfOutlineEntry[]> {
+    const entries: PdfOutlineEntry[] = [];
+    let ref = first;
+    while (
+      ref instanceof PdfRef &&
+      !seen.has(ref.num) &&
+      seen.size < MAX_OUTLINE_ITEMS
+    ) {
+      seen.add(ref.num);
+      const item = await pdf.resolveDict(ref);
+      if (!item) break;
+
+      const title = await pdf.resolve(item.get("Title"));
+      const destination = await this.destination(pdf, catalog, pages, item);
+      entries.push({
+        title:
+          title instanceof PdfString
+            ? decodePdfText(title.bytes).replace(/\s+/g, " ").trim()
+            : "",
+        pageIndex: destination?.pageIndex ?? null,
+        top: destination?.top ?? null,
+        children: await this.readItems(
+          pdf,
+          catalog,
+          pages,
+          item.get("First"),
+          seen,
+        ),
+      });
+      ref = item.get("Next");
+    }
+    return entries;
+  }
+
+  /**
+   * Page index and top of an item's /Dest or GoTo action.
+   */
+  private static async destination(
+    pdf: PdfDocument,
+    catalog: PdfDict,
+    pages: Map<number, number>,
+    item: PdfDict,
+  ): Promise<{ pageIndex: number | null; top: number | null } | null> {
+    let dest = await pdf.resolve(item.get("Dest"));
+    if (dest === null) {
+      const action = await pdf.resolveDict(item.get("A"));
+      const type = action?.get("S");
+      if (type instanceof PdfName && type.name === "GoTo") {
+        dest = await pdf.resolve(action!.get("D"));
+      }
+    }
+
+    if (dest instanceof PdfName) {
+      const dests = await pdf.resolveDict(catalog.get("Dests"));
+      dest = await pdf.resolve(dests?.get(dest.name));
+    } else if (dest instanceof PdfString) {
+      const names = await pdf.resolveDict(catalog.get("Names"));
+      const key = latin1(dest.bytes);
+      dest = await this.lookupName(pdf, names?.get("Dests"), key);
+    }
+    // Named destinations may be wrapped in a dictionary
+    if (dest instanceof Map) dest = await pdf.resolve(dest.get("D"));
+    if (!Array.isArray(dest) || dest.length === 0) return null;
+
+    const page = dest[0];
+    const pageIndex =
+      page instanceof PdfRef
+        ? (pages.get(page.num) ?? null)
+        : typeof page === "number"
+          ? page
+          : null;
+    const fit = dest[1] instanceof PdfName ? dest[1].name : "";
+    const top =
+      fit === "XYZ"
+        ? dest[3]
+        : fit === "FitH" || fit === "FitBH"
+          ? dest[2]
+          : fit === "FitR"
+            ? dest[5]
+            : null;
+    return { pageIndex, top: typeof top === "number" ? top : null };
+  }
+
+  /**
+   * Value for a key in a name tree.
+   */
+  private static async lookupName(
+    pdf: PdfDocument,
+    root: PdfValue | undefined,
+    key: string,
+    depth: number = 0,
+  ): Promise<PdfValue> {
+    const node = await pdf.resolveDict(root);
+    if (!node || depth > 32) return null;
+
+    const names = await pdf.resolve(node.get("Names"));
+    if (Array.isArray(names)) {
+      for (let i = 0; i + 1 < names.length; i += 2) {
+        const name = await pdf.resolve(names[i]);
+        if (name instanceof PdfString && latin1(name.bytes) === key) {
+          return pdf.resolve(names[i + 1]);
+        }
+      }
+    }
+
+    const kids = await pdf.resolve(node.get("Kids"));
+    if (!Array.isArray(kids)) return null;
+    for (const kid of kids) {
+      const kidNode = await pdf.resolveDict(kid);
+      const limits = await pdf.resolve(kidNode?.get("Limits"));
+      if (
+        Array.isArray(limits) &&
+        limits[0] instanceof PdfString &&
+        limits[1] instanceof PdfString &&
+        (key < latin1(limits[0].bytes) || key > latin1(limits[1].bytes))
+      ) {
+        continue;
+      }
+      const value = await this.lookupName(pdf, kidNode, key, depth + 1);
+      if (value !== null) return value;
+    }
+    return null;
+  }
+
+  /**
+   * Page index of each page object in the page tree, by object number.
+   */
+  private static async pageIndexes(
+    pdf: PdfDocument,
+    root: PdfValue,
+  ): Promise<Map<number, number>> {
+    const indexes = new Map<number, number>();
+    const seen = new Set<number>();
+    const walk = async (node: PdfValue) => {
+      if (node instanceof PdfRef) {
+        if (seen.has(node.num)) return;
+        seen.add(node.num);
+      }
+      const dict = await pdf.resolveDict(node);
+      if (!dict) return;
+      const kids = await pdf.resolve(dict.get("Kids"));
+      if (Array.isArray(kids)) {
+        for (const kid of kids) await walk(kid);
+      } else if (node instanceof PdfRef) {
+        indexes.set(node.num, indexes.size);
+      }
+    };
+    await walk(root);
+    return indexes;
+  }
+}
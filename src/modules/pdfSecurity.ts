@@ -0,0 +1,369 @@
+/**
+ * Decryption of PDF files protected by the standard security handler
+ * without a user password, as publishers often do to set permissions.
+ * Such files open without asking, so their strings and streams can be
+ * decrypted with a key derived from the empty password.
+ *
+ * Supports RC4 (40 to 128 bit), AES-128 and AES-256 (revisions 2 to 6).
+ * AES and SHA-2 come from Web Crypto; MD5 and RC4, which it lacks, are
+ * implemented here.
+ */
+
+/** Crypt filter method: none, RC4, AES-128 or AES-256 */
+export type CryptMethod = "None" | "V2" | "AESV2" | "AESV3";
+
+/** Entries of the /Encrypt dictionary and the file ID */
+export interface PdfEncryption {
+  filter: string;
+  version: number;
+  revision: number;
+  /** Key length in bits (revisions 2 to 4) */
+  length: number;
+  /** /O, /U and /UE strings */
+  owner: Uint8Array;
+  user: Uint8Array;
+  userKey: Uint8Array;
+  /** /P permission flags */
+  permissions: number;
+  encryptMetadata: boolean;
+  stringMethod: CryptMethod;
+  streamMethod: CryptMethod;
+  /** First part of the trailer's /ID */
+  id: Uint8Array;
+}
+
+/** Padding of passwords shorter than 32 bytes (revisions 2 to 4) */
+const PASSWORD_PADDING = Uint8Array.from([
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff,
+  0xfa, 0x01, 0x08, 0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c,
+  0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+]);
+
+/** Suffix of the object key hash for AES-128 */
+const AES_SALT = Uint8Array.from([0x73, 0x41, 0x6c, 0x54]);
+
+const MD5_SHIFTS = [
+  [7, 12, 17, 22],
+  [5, 9, 14, 20],
+  [4, 11, 16, 23],
+  [6, 10, 15, 21],
+];
+
+const MD5_CONSTANTS = [
+  0xd76aa478, 0xe8c7b756, 0x242070db, 0xc1bdceee, 0xf57c0faf, 0x4787c62a,
+  0xa8304613, 0xfd469501, 0x698098d8, 0x8b44f7af, 0xffff5bb1, 0x895cd7be,
+  0x6b901122, 0xfd987193, 0xa679438e, 0x49b40821, 0xf61e2562, 0xc040b340,
+  0x265e5a51, 0xe9b6c7aa, 0xd62f105d, 0x02441453, 0xd8a1e681, 0xe7d3fbc8,
+  0x21e1cde6, 0xc33707d6, 0xf4d50d87, 0x455a14ed, 0xa9e3e905, 0xfcefa3f8,
+  0x676f02d9, 0x8d2a4c8a, 0xfffa3942, 0x8771f681, 0x6d9d6122, 0xfde5380c,
+  0xa4beea44, 0x4bdecfa9, 0xf6bb4b60, 0xbebfbc70, 0x289b7ec6, 0xeaa127fa,
+  0xd4ef3085, 0x04881d05, 0xd9d4d039, 0xe6db99e5, 0x1fa27cf8, 0xc4ac5665,
+  0xf4292244, 0x432aff97, 0xab9423a7, 0xfc93a039, 0x655b59c3, 0x8f0ccc92,
+  0xffeff47d, 0x85845dd1, 0x6fa87e4f, 0xfe2ce6e0, 0xa3014314, 0x4e0811a1,
+  0xf7537e82, 0xbd3af235, 0x2ad7d2bb, 0xeb86d391,
+];
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let pos = 0;
+  for (const part of parts) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+/** 32-bit integer, least significant byte first */
+function int32(value: number): Uint8Array {
+  return Uint8Array.from([0, 8, 16, 24], (shift) => (value >>> shift) & 0xff);
+}
+
+function md5(data: Uint8Array): Uint8Array {
+  const length = Math.ceil((data.length + 9) / 64) * 64;
+  const padded = new Uint8Array(length);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(length - 8, (data.length * 8) >>> 0, true);
+  view.setUint32(length - 4, Math.floor(data.length / 0x20000000), true);
+
+  const state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+  for (let chunk = 0; chunk < length; chunk += 64) {
+    let [a, b, c, d] = state;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      const sum =
+        (a + f + MD5_CONSTANTS[i] + view.getUint32(chunk + g * 4, true)) | 0;
+      const shift = MD5_SHIFTS[i >> 4][i & 3];
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) | 0;
+    }
+    state[0] = (state[0] + a) | 0;
+    state[1] = (state[1] + b) | 0;
+    state[2] = (state[2] + c) | 0;
+    state[3] = (state[3] + d) | 0;
+  }
+  return concat(...state.map(int32));
+}
+
+/** RC4 encryption, which is its own inverse */
+function rc4(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const s = Uint8Array.from({ length: 256 }, (_, i) => i);
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + s[i] + key[i % key.length]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+  }
+  const out = new Uint8Array(data.length);
+  for (let k = 0, i = 0, j = 0; k < data.length; k++) {
+    i = (i + 1) & 0xff;
+    j = (j + s[i]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+    out[k] = data[k] ^ s[(s[i] + s[j]) & 0xff];
+  }
+  return out;
+}
+
+export class PdfSecurity {
+  private constructor(
+    private key: Uint8Array,
+    private encryption: PdfEncryption,
+    private subtle: SubtleCrypto,
+  ) {}
+
+  /**
+   * Decryption for a file, keyed with the empty user password. Throws if
+   * the file needs a password or uses another security handler.
+   */
+  static async open(
+    encryption: PdfEncryption,
+    subtle: SubtleCrypto,
+  ): Promise<PdfSecurity> {
+    const { filter, version, revision } = encryption;
+    if (filter !== "Standard" || version < 1 || version > 5) {
+      throw new Error(`Unsupported PDF encryption: ${filter} ${version}`);
+    }
+    const key =
+      revision >= 5
+        ? await this.aesKey(encryption, subtle)
+        : this.rc4Key(encryption);
+    if (!key) throw new Error("The PDF is protected by a password");
+    return new PdfSecurity(key, encryption, subtle);
+  }
+
+  /** Decrypt a string of an indirect object */
+  decryptString(
+    data: Uint8Array,
+    num: number,
+    gen: number,
+  ): Promise<Uint8Array> {
+    return this.decrypt(this.encryption.stringMethod, data, num, gen);
+  }
+
+  /** Decrypt the data of a stream object */
+  decryptStream(
+    data: Uint8Array,
+    num: number,
+    gen: number,
+  ): Promise<Uint8Array> {
+    return this.decrypt(this.encryption.streamMethod, data, num, gen);
+  }
+
+  private async decrypt(
+    method: CryptMethod,
+    data: Uint8Array,
+    num: number,
+    gen: number,
+  ): Promise<Uint8Array> {
+    if (method === "None") return data;
+    if (method === "AESV3") return this.decryptAes(this.key, data);
+
+    // Revisions 2 to 4 key each object (algorithm 1)
+    const aes = method === "AESV2";
+    const objectKey = md5(
+      concat(
+        this.key,
+        int32(num).subarray(0, 3),
+        int32(gen).subarray(0, 2),
+        aes ? AES_SALT : new Uint8Array(),
+      ),
+    ).subarray(0, Math.min(this.key.length + 5, 16));
+    return aes ? this.decryptAes(objectKey, data) : rc4(objectKey, data);
+  }
+
+  /** AES-CBC data with the initialization vector first */
+  private async decryptAes(
+    key: Uint8Array,
+    data: Uint8Array,
+  ): Promise<Uint8Array> {
+    if (data.length < 32 || data.length % 16) return new Uint8Array();
+    return aesCbc(
+      this.subtle,
+      "decrypt",
+      key,
+      data.subarray(0, 16),
+      data.subarray(16),
+    );
+  }
+
+  /**
+   * File key for revisions 2 to 4 (algorithm 2), null if the empty
+   * password does not match /U (algorithms 4 and 5).
+   */
+  private static rc4Key(encryption: PdfEncryption): Uint8Array | null {
+    const { revision, owner, user, id } = encryption;
+    const length =
+      revision === 2 ? 5 : Math.min(Math.floor(encryption.length / 8), 16);
+    let hash = md5(
+      concat(
+        PASSWORD_PADDING,
+        owner.subarray(0, 32),
+        int32(encryption.permissions),
+        id,
+        revision >= 4 && !encryption.encryptMetadata
+          ? int32(-1)
+          : new Uint8Array(),
+      ),
+    );
+    if (revision >= 3) {
+      for (let i = 0; i < 50; i++) hash = md5(hash.subarray(0, length));
+    }
+    const key = hash.subarray(0, length);
+
+    if (revision === 2) {
+      return equalBytes(rc4(key, PASSWORD_PADDING), user.subarray(0, 32))
+        ? key
+        : null;
+    }
+    let check = rc4(key, md5(concat(PASSWORD_PADDING, id)));
+    for (let i = 1; i <= 19; i++) {
+      check = rc4(
+        key.map((byte) => byte ^ i),
+        check,
+      );
+    }
+    return equalBytes(check, user.subarray(0, 16)) ? key : null;
+  }
+
+  /**
+   * File key for revisions 5 and 6, decrypted from /UE (algorithm 2.A),
+   * null if the empty password does not match /U.
+   */
+  private static async aesKey(
+    encryption: PdfEncryption,
+    subtle: SubtleCrypto,
+  ): Promise<Uint8Array | null> {
+    const { revision, user, userKey } = encryption;
+    if (user.length < 48 || userKey.length < 32) return null;
+    const hash = (salt: Uint8Array) =>
+      revision === 5
+        ? digest(subtle, "SHA-256", salt)
+        : passwordHash(subtle, salt);
+
+    // /U: hash, validation salt, key salt
+    if (!equalBytes(await hash(user.subarray(32, 40)), user.subarray(0, 32))) {
+      return null;
+    }
+    const intermediate = await hash(user.subarray(40, 48));
+    return aesCbcRaw(
+      subtle,
+      intermediate,
+      new Uint8Array(16),
+      userKey.subarray(0, 32),
+    );
+  }
+}
+
+async function digest(
+  subtle: SubtleCrypto,
+  algorithm: string,
+  data: Uint8Array,
+): Promise<Uint8Array> {
+  return new Uint8Array(await subtle.digest(algorithm, data));
+}
+
+/**
+ * AES-CBC with PKCS #7 padding, as Web Crypto does it.
+ */
+async function aesCbc(
+  subtle: SubtleCrypto,
+  mode: "encrypt" | "decrypt",
+  key: Uint8Array,
+  iv: Uint8Array,
+  data: Uint8Array,
+): Promise<Uint8Array> {
+  const cryptoKey = await subtle.importKey("raw", key, "AES-CBC", false, [
+    mode,
+  ]);
+  return new Uint8Array(
+    await subtle[mode]({ name: "AES-CBC", iv }, cryptoKey, data),
+  );
+}
+
+/**
+ * AES-CBC decryption of data without padding. Web Crypto insists on
+ * padding, so a block that decrypts to a full padding block is appended.
+ */
+async function aesCbcRaw(
+  subtle: SubtleCrypto,
+  key: Uint8Array,
+  iv: Uint8Array,
+  data: Uint8Array,
+): Promise<Uint8Array> {
+  const last = data.length ? data.subarray(-16) : iv;
+  const padding = (
+    await aesCbc(subtle, "encrypt", key, last, new Uint8Array(16).fill(16))
+  ).subarray(0, 16);
+  return aesCbc(subtle, "decrypt", key, iv, concat(data, padding));
+}
+
+/**
+ * Hash of the empty user password with a salt, for revision 6
+ * (algorithm 2.B).
+ */
+async function passwordHash(
+  subtle: SubtleCrypto,
+  salt: Uint8Array,
+): Promise<Uint8Array> {
+  const algorithms = ["SHA-256", "SHA-384", "SHA-512"];
+  let key = await digest(subtle, "SHA-256", salt);
+  let encrypted: Uint8Array;
+  let round = 0;
+  do {
+    const block = new Uint8Array(key.length * 64);
+    for (let i = 0; i < 64; i++) block.set(key, i * key.length);
+    encrypted = (
+      await aesCbc(
+        subtle,
+        "encrypt",
+        key.subarray(0, 16),
+        key.subarray(16, 32),
+        block,
+      )
+    ).subarray(0, block.length);
+    // The first 16 bytes as a number, modulo 3
+    const sum = encrypted.subarray(0, 16).reduce((s, byte) => s + byte, 0);
+    key = await digest(subtle, algorithms[sum % 3], encrypted);
+    round++;
+  } while (round < 64 || encrypted[encrypted.length - 1] > round - 32);
+  return key.subarray(0, 32);
+}
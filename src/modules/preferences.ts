@@ -0,0 +1,157 @@
+/**
+ * Preferences pane registration and behaviour.
+ *
+ * Most controls are bound to preferences in preferences.xhtml; this fills
+ * the format lists from the FormatRegistry, wires the folder pickers and
+ * runs the color legend and template editors, which only save valid input.
+ */
+
+import { config } from "../../package.json";
+import { getPref, setPref } from "../utils/prefs";
+import { ColorLegend } from "./colorLegend";
+import { FormatRegistry } from "./formatRegistry";
+import { TemplateStore } from "./templates";
+
+type FolderPref = "exportDirectory" | "autoExportDir";
+
+const FORMAT_PREFS = ["defaultFormat", "autoExportFormat"] as const;
+const FOLDER_PREFS: FolderPref[] = ["exportDirectory", "autoExportDir"];
+
+function elementID(pref: string): string {
+  return `zotero-prefpane-${config.addonRef}-${pref}`;
+}
+
+export class PreferencePane {
+  /**
+   * Add the pane to Zotero's settings window.
+   */
+  static register(): void {
+    Zotero.PreferencePanes.register({
+      pluginID: config.addonID,
+      src: rootURI + "content/preferences.xhtml",
+      label: config.addonName,
+      image: `chrome://${config.addonRef}/content/icons/favicon.png`,
+    });
+  }
+
+  /**
+   * Set up the pane once it has loaded in a settings window.
+   */
+  static onLoad(window: Window): void {
+    const doc = window.document;
+
+    for (const pref of FORMAT_PREFS) {
+      const menulist = doc.getElementById(
+        elementID(pref),
+      ) as XULMenuListElement | null;
+      if (!menulist) continue;
+
+      const popup = menulist.querySelector("menupopup");
+      popup?.replaceChildren(
+        ...FormatRegistry.getAll().map((format) => {
+          const menuitem = doc.createXULElement("menuitem");
+          menuitem.setAttribute("label", format.label);
+          menuitem.setAttribute("value", format.id);
+          return menuitem;
+        }),
+      );
+      // Items are added after preference binding, so select explicitly
+      menulist.value = getPref(pref);
+    }
+
+    for (const pref of FOLDER_PREFS) {
+      doc
+        .getElementById(`${elementID(pref)}-browse`)
+        ?.addEventListener("command", () => this.chooseFolder(doc, pref));
+    }
+
+    this.initLegendEditor(doc);
+    this.initTemplateEditor(doc);
+  }
+
+  /**
+   * Show the color legend as text for editing and save it once valid; an
+   * empty legend restores Zotero's color names.
+   */
+  private static initLegendEditor(doc: Document): void {
+    const editor = doc.getElementById(
+      elementID("colorLegend"),
+    ) as HTMLTextAreaElement | null;
+    const status = doc.getElementById(`${elementID("colorLegend")}-status`);
+    if (!editor || !status) return;
+
+    editor.value = ColorLegend.toText(ColorLegend.get());
+    doc
+      .getElementById(`${elementID("colorLegend")}-save`)
+      ?.addEventListener("command", () => {
+        const { legend, error } = ColorLegend.fromText(editor.value);
+        if (!legend) {
+          status.setAttribute("value", `Not saved: ${error}`);
+          return;
+        }
+        const count = Object.keys(legend).length;
+        setPref("colorLegend", count > 0 ? JSON.stringify(legend) : "");
+        editor.value = ColorLegend.toText(ColorLegend.get());
+        status.setAttribute(
+          "value",
+          count > 0 ? `Saved ${count} colors` : "Restored Zotero's color names",
+        );
+      });
+  }
+
+  /**
+   * Show the templates preference for editing, with any errors in it, and
+   * save edits only once they are valid.
+   */
+  private static initTemplateEditor(doc: Document): void {
+    const editor = doc.getElementById(
+      elementID("templates"),
+    ) as HTMLTextAreaElement | null;
+    const status = doc.getElementById(`${elementID("templates")}-status`);
+    if (!editor || !status) return;
+
+    const raw = getPref("templates") || "[]";
+    try {
+      editor.value = JSON.stringify(JSON.parse(raw), null, 2);
+    } catch {
+      editor.value = raw;
+    }
+    status.setAttribute("value", TemplateStore.parse(raw).errors.join("; "));
+
+    doc
+      .getElementById(`${elementID("templates")}-save`)
+      ?.addEventListener("command", () => {
+        const { templates, errors } = TemplateStore.parse(editor.value);
+        if (errors.length > 0) {
+          status.setAttribute("value", `Not saved: ${errors.join("; ")}`);
+          return;
+        }
+        setPref("templates", JSON.stringify(templates));
+        status.setAttribute("value", `Saved ${templates.length} template sets`);
+      });
+  }
+
+  private static async chooseFolder(
+    doc: Document,
+    pref: FolderPref,
+  ): Promise<void> {
+    const path = await new ztoolkit.FilePicker(
+      "Choose Folder",
+      "folder",
+      undefined,
+      undefined,
+      doc.defaultView || undefined,
+      undefined,
+      getPref(pref) || undefined,
+    ).open();
+    if (!path) return;
+
+    setPref(pref, path);
+    const input = doc.getElementById(
+      elementID(pref),
+    ) as HTMLInputElement | null;
+    if (input) {
+      input.value = path;
+    }
+  }
+}
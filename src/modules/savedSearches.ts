@@ -0,0 +1,64 @@
+/**
+ * Saved search lookup for saved search exports (context menu and HTTP API).
+ *
+ * A saved search can match child attachments, notes and annotations; they
+ * are exported with their top-level item, as the items list shows them.
+ * Only regular items and standalone PDF, EPUB and snapshot attachments are
+ * exported.
+ */
+
+import { isReaderAttachment } from "./annotationLocation";
+
+// Type for Zotero.Searches and saved searches (not fully typed)
+export interface SavedSearch {
+  key: string;
+  name: string;
+  libraryID: number;
+  search: () => Promise<number[]>;
+}
+
+interface ZoteroSearchList {
+  Searches: {
+    getAll: (libraryID: number) => Promise<SavedSearch[]>;
+    getByLibraryAndKeyAsync: (
+      libraryID: number,
+      key: string,
+    ) => Promise<SavedSearch | false>;
+  };
+}
+
+export class SavedSearches {
+  /**
+   * A saved search in a library by key, or else by name (ignoring case).
+   */
+  static async find(
+    libraryID: number,
+    keyOrName: string,
+  ): Promise<SavedSearch | null> {
+    const { Searches } = Zotero as unknown as ZoteroSearchList;
+    const search = await Searches.getByLibraryAndKeyAsync(libraryID, keyOrName);
+    if (search) return search;
+
+    const name = keyOrName.trim().toLowerCase();
+    const searches = await Searches.getAll(libraryID);
+    return searches.find((s) => s.name.toLowerCase() === name) ?? null;
+  }
+
+  /**
+   * Run a saved search and return the exportable items it matches, in the
+   * order found.
+   */
+  static async getItems(search: SavedSearch): Promise<Zotero.Item[]> {
+    const ids = await search.search();
+    if (ids.length === 0) return [];
+
+    const items = new Map<number, Zotero.Item>();
+    for (const match of (await Zotero.Items.getAsync(ids)) as Zotero.Item[]) {
+      const item = match.topLevelItem;
+      if (item.isRegularItem() || isReaderAttachment(item)) {
+        items.set(item.id, item);
+      }
+    }
+    return [...items.values()];
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * Incremental ("sync") export into an existing notes file.
+ *
+ * Annotation blocks are wrapped in comment markers carrying the annotation
+ * key, using the format's line comment syntax:
+ *   org:  # zotero-annotation KEY ... # /zotero-annotation KEY
+ *   md:   <!-- zotero-annotation KEY --> ... <!-- /zotero-annotation KEY -->
+ * The begin marker also records the template and tag style the block was
+ * rendered with ("template=default tags=native"), so that import can tell
+ * whether it reads the block as written.
+ *
+ * On sync, blocks are matched by key: changed annotations are rewritten in
+ * place, new ones are inserted in page order, and blocks whose annotation
+ * was deleted in Zotero are kept but flagged ("zotero-annotation KEY
+ * deleted"). Everything outside the markers (the header and the user's own
+ * writing between blocks) is left untouched.
+ */
+
+import { OutputFormat } from "./formatRegistry";
+
+/** How an annotation block was rendered */
+export interface BlockStyle {
+  /** Template set name */
+  template: string;
+  tagStyle: string;
+}
+
+export interface RenderedBlock {
+  key: string;
+  content: string;
+  /** Style recorded in the block's marker; unknown for older exports */
+  style?: BlockStyle;
+}
+
+export interface SyncResult {
+  content: string;
+  added: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+}
+
+type Segment =
+  | { type: "text"; text: string }
+  | {
+      type: "block";
+      key: string;
+      text: string;
+      deleted: boolean;
+      style?: BlockStyle;
+    };
+
+const MARKER = "zotero-annotation";
+
+function escapeRegExp(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function commentSyntax(format: OutputFormat): { start: string; end: string } {
+  if (!format.commentSyntax) {
+    throw new Error(`Format ${format.id} does not support sync export`);
+  }
+  return format.commentSyntax;
+}
+
+function beginMarker(
+  format: OutputFormat,
+  key: string,
+  style?: BlockStyle,
+  deleted = false,
+): string {
+  const { start, end } = commentSyntax(format);
+  const flag = deleted ? " deleted" : "";
+  const attrs = style
+    ? ` template=${encodeURIComponent(style.template)} tags=${style.tagStyle}`
+    : "";
+  return `${start}${MARKER} ${key}${flag}${attrs}${end}`;
+}
+
+/**
+ * Style from the attributes of a begin marker (" template=... tags=..."),
+ * undefined unless both are given.
+ */
+function parseStyle(attrs: string): BlockStyle | undefined {
+  const values = new Map(
+    attrs
+      .trim()
+      .split(/\s+/)
+      .map((attr) => attr.split("=", 2) as [string, string]),
+  );
+  const template = values.get("template");
+  const tagStyle = values.get("tags");
+  if (!template || !tagStyle) return undefined;
+  try {
+    return { template: decodeURIComponent(template), tagStyle };
+  } catch {
+    return undefined;
+  }
+}
+
+function endMarker(format: OutputFormat, key: string): string {
+  const { start, end } = commentSyntax(format);
+  return `${start}/${MARKER} ${key}${end}`;
+}
+
+export class SyncExport {
+  /**
+   * Whether a format can be synced (has a line comment syntax).
+   */
+  static supports(format: OutputFormat): boolean {
+    return Boolean(format.commentSyntax);
+  }
+
+  /**
+   * Wrap a rendered annotation in begin/end markers, recording the style it
+   * was rendered with if given.
+   */
+  static wrap(
+    format: OutputFormat,
+    key: string,
+    content: string,
+    style?: BlockStyle,
+  ): string {
+    const body = content.endsWith("\n") ? content : content + "\n";
+    return `${beginMarker(format, key, style)}\n${body}${endMarker(format, key)}\n`;
+  }
+
+  /**
+   * Annotation keys present in a document, in document order.
+   */
+  static findKeys(format: OutputFormat, text: string): string[] {
+    return this.parse(format, text)
+      .filter((s) => s.type === "block")
+      .map((s) => (s as { key: string }).key);
+  }
+
+  /**
+   * Content of the marked annotation blocks in a document, without the
+   * markers, in document order. Blocks flagged as deleted are left out.
+   */
+  static blocks(format: OutputFormat, text: string): RenderedBlock[] {
+    return this.parse(format, text).flatMap((segment) => {
+      if (segment.type !== "block" || segment.deleted) return [];
+      const lines = segment.text.split("\n");
+      // Drop the begin marker and the end marker with its newline
+      const content = lines.slice(1, -2).join("\n");
+      return [
+        {
+          key: segment.key,
+          content: content && content + "\n",
+          style: segment.style,
+        },
+      ];
+    });
+  }
+
+  /**
+   * Merge freshly rendered annotation blocks (in page order) into an
+   * existing document.
+   */
+  static merge(
+    format: OutputFormat,
+    existing: string,
+    blocks: RenderedBlock[],
+  ): SyncResult {
+    const segments = this.parse(format, existing);
+    const fresh = new Map(blocks.map((b) => [b.key, b]));
+    const result: SyncResult = {
+      content: "",
+      added: 0,
+      updated: 0,
+      deleted: 0,
+      unchanged: 0,
+    };
+
+    // Update or flag the blocks already in the document
+    for (const segment of segments) {
+      if (segment.type !== "block") continue;
+
+      const block = fresh.get(segment.key);
+      if (block) {
+        const text = this.wrap(format, block.key, block.content, block.style);
+        if (text === segment.text) {
+          result.unchanged++;
+        } else {
+          segment.text = text;
+          segment.deleted = false;
+          segment.style = block.style;
+          result.updated++;
+        }
+      } else if (!segment.deleted) {
+        const firstLineEnd = segment.text.indexOf("\n");
+        segment.text =
+          beginMarker(format, segment.key, segment.style, true) +
+          segment.text.slice(firstLineEnd);
+        segment.deleted = true;
+        result.deleted++;
+      }
+    }
+
+    // Insert new blocks after the closest preceding annotation, keeping any
+    // user text that follows that annotation attached to it
+    const indexOfBlock = (key: string) =>
+      segments.findIndex((s) => s.type === "block" && s.key === key);
+    let anchor: string | null = null;
+
+    for (const block of blocks) {
+      if (indexOfBlock(block.key) >= 0) {
+        anchor = block.key;
+        continue;
+      }
+
+      const from = anchor ? indexOfBlock(anchor) + 1 : 0;
+      let insertAt = segments.findIndex(
+        (s, i) => i >= from && s.type === "block",
+      );
+      if (insertAt < 0) {
+        insertAt = segments.length;
+        this.ensureTrailingBlankLine(segments);
+      }
+
+      segments.splice(
+        insertAt,
+        0,
+        {
+          type: "block",
+          key: block.key,
+          text: this.wrap(format, block.key, block.content, block.style),
+          deleted: false,
+          style: block.style,
+        },
+        { type: "text", text: "\n" },
+      );
+      result.added++;
+      anchor = block.key;
+    }
+
+    result.content = segments.map((s) => s.text).join("");
+    return result;
+  }
+
+  /**
+   * Split a document into marked annotation blocks and the text between
+   * them. A begin marker without a matching end marker is kept as text.
+   */
+  private static parse(format: OutputFormat, text: string): Segment[] {
+    const { start, end } = commentSyntax(format);
+    const begin = new RegExp(
+      `^${escapeRegExp(start)}${MARKER} (\\S+)( deleted)?((?: \\S+=\\S*)*)${escapeRegExp(end)}\\s*$`,
+    );
+
+    const lines = text.split(/(?<=\n)/);
+    const segments: Segment[] = [];
+    let pending = "";
+    let i = 0;
+
+    while (i < lines.length) {
+      const match = lines[i].match(begin);
+      const closeAt = match
+        ? lines.findIndex(
+            (line, j) =>
+              j > i && line.trimEnd() === endMarker(format, match[1]),
+          )
+        : -1;
+
+      if (!match || closeAt < 0) {
+        pending += lines[i];
+        i++;
+        continue;
+      }
+
+      if (pending) {
+        segments.push({ type: "text", text: pending });
+        pending = "";
+      }
+      let blockText = lines.slice(i, closeAt + 1).join("");
+      if (!blockText.endsWith("\n")) blockText += "\n";
+      segments.push({
+        type: "block",
+        key: match[1],
+        text: blockText,
+        deleted: Boolean(match[2]),
+        style: match[3] ? parseStyle(match[3]) : undefined,
+      });
+      i = closeAt + 1;
+    }
+
+    if (pending) {
+      segments.push({ type: "text", text: pending });
+    }
+
+    return segments;
+  }
+
+  /**
+   * Make sure appended blocks are separated from the preceding content.
+   */
+  private static ensureTrailingBlankLine(segments: Segment[]): void {
+    const text = segments.map((s) => s.text).join("");
+    if (!text || text.endsWith("\n\n")) return;
+    segments.push({ type: "text", text: text.endsWith("\n") ? "\n" : "\n\n" });
+  }
+}
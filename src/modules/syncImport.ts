@@ -0,0 +1,402 @@
+/**
+ * Import of edited annotation comments and tags from an exported notes file
+ * back into Zotero.
+ *
+ * Annotation blocks are found by their key markers (sync export), so text
+ * the user wrote between blocks is never read as a comment. Files without
+ * markers are refused, as are blocks whose markers record another template
+ * than the built-in one or another tag style than the configured one.
+ *
+ * Blocks are read as the built-in templates write them: what they write for
+ * the annotation itself (link, quote, image, color attribute) is skipped,
+ * the last line is read as the tags if it looks like tags in the configured
+ * tag style, and the rest is the comment. A comment or tag list is only
+ * changed when it differs from what the annotation exports as now, so
+ * formatting the file cannot show stays in Zotero until the comment is
+ * edited.
+ */
+
+import {
+  AnnotationFormatter,
+  TagStyle,
+  ZoteroAnnotation,
+} from "./annotationFormatter";
+import { AnnotationWriter } from "./annotationWriter";
+import { OutputFormat } from "./formatRegistry";
+import { MarkdownFormatter } from "./markdownFormatter";
+import { NoteConverter } from "./noteConverter";
+import { SyncExport } from "./syncExport";
+import { DEFAULT_TEMPLATE_NAME } from "./templates";
+import { ZoteroLinks } from "./zoteroLinks";
+import { getPref } from "../utils/prefs";
+
+/** How a format's exported annotation blocks are read back */
+export interface ImportSyntax {
+  /** Lines left out of the comment, e.g. color attributes and images */
+  skipLine: RegExp;
+  /** Start and end lines of regions left out of the comment, e.g. quotes */
+  skipRegions: Array<[RegExp, RegExp]>;
+  /** Tag names in a line of native tags, null if it is not one */
+  readTags(line: string): string[] | null;
+  /** A Zotero tag as written in native tags */
+  tagName(tag: string): string;
+  /** An annotation comment as exported */
+  exportComment(comment: string): string;
+  /** Zotero rich text for an edited comment */
+  importComment(text: string): string;
+}
+
+export const ORG_IMPORT_SYNTAX: ImportSyntax = {
+  skipLine:
+    /^\s*(?:#\+attr_zotero:|#\+(?:begin|end)_comment\b|\[\[(?:file|data):[^\]]*\]\]\s*$)/i,
+  skipRegions: [
+    [/^\s*#\+begin_quote\b/i, /^\s*#\+end_quote\b/i],
+    [/^\s*#\+begin_example\b/i, /^\s*#\+end_example\b/i],
+  ],
+  readTags: (line) =>
+    /^:(?:[^\s:]+:)+$/.test(line) ? line.slice(1, -1).split(":") : null,
+  tagName: (tag) => AnnotationFormatter.tagName(tag),
+  exportComment: (comment) => NoteConverter.commentToOrg(comment),
+  importComment: (text) => NoteConverter.commentFromOrg(text),
+};
+
+export const MARKDOWN_IMPORT_SYNTAX: ImportSyntax = {
+  skipLine:
+    /^\s*(?:>|!\[[^\]]*\]\([^)]*\)\s*$|\*\[(?:Image|Ink\/drawing) annotation at .*\]\*\s*$|\[[^\]]*\]\{color="[^"]*"\}\s*$)/,
+  skipRegions: [],
+  readTags: (line) =>
+    /^#[^\s#]+(?:\s+#[^\s#]+)*$/.test(line)
+      ? line.split(/\s+/).map((tag) => tag.slice(1))
+      : null,
+  tagName: (tag) => MarkdownFormatter.tagName(tag),
+  exportComment: (comment) => NoteConverter.commentToMarkdown(comment),
+  importComment: (text) => NoteConverter.commentFromMarkdown(text),
+};
+
+/** Comment and tags of an annotation block in an exported file */
+export interface ImportedBlock {
+  key: string;
+  /** "library" or "groups/<groupID>" from the block's link, null if none */
+  libraryPath: string | null;
+  comment: string;
+  /** Tags as written (names for native tags), null if not exported */
+  tags: string[] | null;
+}
+
+/** Differences between a block and its annotation */
+export interface AnnotationDiff {
+  /** Comments as written in the file */
+  comment?: { from: string; to: string };
+  tags?: { from: string[]; to: string[] };
+}
+
+export interface ImportChange extends AnnotationDiff {
+  key: string;
+  libraryID: number;
+  pageLabel: string;
+}
+
+export interface ImportPreview {
+  changes: ImportChange[];
+  unchanged: number;
+  /** Keys of blocks whose annotation is not in Zotero */
+  missing: string[];
+  /** Changed annotations that cannot be edited, with the reason */
+  skipped: Array<{ key: string; error: string }>;
+}
+
+export interface ImportResult {
+  applied: number;
+  failed: Array<{ key: string; error: string }>;
+}
+
+function importSyntax(format: OutputFormat): ImportSyntax {
+  if (!format.importSyntax) {
+    throw new Error(`Format ${format.id} does not support import`);
+  }
+  return format.importSyntax;
+}
+
+function sameTags(a: string[], b: string[]): boolean {
+  const set = new Set(a);
+  return set.size === new Set(b).size && b.every((tag) => set.has(tag));
+}
+
+export class SyncImport {
+  /**
+   * Whether annotation changes can be imported from a format.
+   */
+  static supports(format: OutputFormat): boolean {
+    return Boolean(format.importSyntax);
+  }
+
+  /**
+   * Why a document cannot be imported, null if it can: it needs key
+   * markers, and its blocks must have been written with the built-in
+   * template in the given tag style.
+   */
+  static unreadable(
+    format: OutputFormat,
+    text: string,
+    tagStyle: TagStyle = getPref("tagStyle") as TagStyle,
+  ): string | null {
+    importSyntax(format);
+    if (SyncExport.findKeys(format, text).length === 0) {
+      return "No annotation markers found; only files exported with annotation keys (sync export) can be imported";
+    }
+    for (const { key, style } of SyncExport.blocks(format, text)) {
+      if (!style) {
+        return `The marker of ${key} does not record its template and tag style; the file was exported by an older version`;
+      }
+      if (style.template !== DEFAULT_TEMPLATE_NAME) {
+        return `${key} was written with the "${style.template}" template; only the built-in template can be imported`;
+      }
+      if (style.tagStyle !== tagStyle) {
+        return `${key} was written with the "${style.tagStyle}" tag style; set the tag style preference to it to import the file`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Annotation blocks of an exported document, in document order. Only the
+   * first block of each annotation is read. Throws if the document cannot
+   * be imported (see unreadable).
+   */
+  static parse(
+    format: OutputFormat,
+    text: string,
+    tagStyle: TagStyle = getPref("tagStyle") as TagStyle,
+  ): ImportedBlock[] {
+    const syntax = importSyntax(format);
+    const problem = this.unreadable(format, text, tagStyle);
+    if (problem) throw new Error(problem);
+
+    const blocks = new Map<string, ImportedBlock>();
+    for (const { key, content } of SyncExport.blocks(format, text)) {
+      if (!blocks.has(key)) {
+        blocks.set(
+          key,
+          this.readBlock(syntax, key, content.split("\n"), tagStyle),
+        );
+      }
+    }
+    return Array.from(blocks.values());
+  }
+
+  /**
+   * How a block differs from its annotation. Tags in the file are matched
+   * to the annotation's tags as exported, so tags whose spaces became
+   * underscores keep their spelling.
+   */
+  static diff(
+    format: OutputFormat,
+    block: ImportedBlock,
+    annotation: ZoteroAnnotation,
+    tagStyle: TagStyle = getPref("tagStyle") as TagStyle,
+  ): AnnotationDiff {
+    const syntax = importSyntax(format);
+    const diff: AnnotationDiff = {};
+
+    const exported = syntax.exportComment(annotation.annotationComment || "");
+    if (block.comment !== exported.trim()) {
+      diff.comment = { from: exported, to: block.comment };
+    }
+
+    if (block.tags) {
+      const current = (annotation.getTags() || []).map((t) => t.tag);
+      const name = (tag: string) =>
+        tagStyle === "native" ? syntax.tagName(tag) : tag;
+      if (!sameTags(block.tags, current.map(name))) {
+        const tags = block.tags.map(
+          (tag) => current.find((t) => name(t) === tag) ?? tag,
+        );
+        diff.tags = { from: current, to: Array.from(new Set(tags)) };
+      }
+    }
+    return diff;
+  }
+
+  /**
+   * Compare a document with the annotations in Zotero. Blocks without a
+   * link to tell their library are looked up in the given library.
+   */
+  static async preview(
+    format: OutputFormat,
+    text: string,
+    libraryID: number = Zotero.Libraries.userLibraryID,
+  ): Promise<ImportPreview> {
+    const tagStyle = getPref("tagStyle") as TagStyle;
+    const preview: ImportPreview = {
+      changes: [],
+      unchanged: 0,
+      missing: [],
+      skipped: [],
+    };
+
+    for (const block of this.parse(format, text, tagStyle)) {
+      const blockLibraryID = this.libraryID(block.libraryPath, libraryID);
+      const item =
+        blockLibraryID !== null &&
+        (await Zotero.Items.getByLibraryAndKeyAsync(blockLibraryID, block.key));
+      if (blockLibraryID === null || !item || !item.isAnnotation()) {
+        preview.missing.push(block.key);
+        continue;
+      }
+
+      const annotation = item as unknown as ZoteroAnnotation;
+      const diff = this.diff(format, block, annotation, tagStyle);
+      if (!diff.comment && !diff.tags) {
+        preview.unchanged++;
+        continue;
+      }
+
+      const readOnly = AnnotationWriter.readOnlyReason(item);
+      if (readOnly) {
+        preview.skipped.push({ key: block.key, error: readOnly });
+        continue;
+      }
+      preview.changes.push({
+        key: block.key,
+        libraryID: blockLibraryID,
+        pageLabel: annotation.annotationPageLabel || "",
+        ...diff,
+      });
+    }
+    return preview;
+  }
+
+  /**
+   * Write previewed changes to Zotero.
+   */
+  static async apply(
+    format: OutputFormat,
+    changes: ImportChange[],
+  ): Promise<ImportResult> {
+    const syntax = importSyntax(format);
+    const result: ImportResult = { applied: 0, failed: [] };
+
+    for (const change of changes) {
+      try {
+        const item = await Zotero.Items.getByLibraryAndKeyAsync(
+          change.libraryID,
+          change.key,
+        );
+        if (!item || !item.isAnnotation()) {
+          throw new Error("Annotation not found");
+        }
+        const readOnly = AnnotationWriter.readOnlyReason(item);
+        if (readOnly) throw new Error(readOnly);
+
+        await AnnotationWriter.update(item, {
+          comment: change.comment && syntax.importComment(change.comment.to),
+          tags: change.tags?.to,
+        });
+        result.applied++;
+      } catch (e) {
+        result.failed.push({
+          key: change.key,
+          error: e instanceof Error ? e.message : String(e),
+        });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * The changes as a diff: removed lines start with "-", added ones with
+   * "+".
+   */
+  static describe(preview: ImportPreview): string {
+    const lines: string[] = [];
+    const diff = (label: string, from: string, to: string) => {
+      lines.push(`  ${label}:`);
+      if (from) lines.push(...from.split("\n").map((l) => `  - ${l}`));
+      if (to) lines.push(...to.split("\n").map((l) => `  + ${l}`));
+    };
+
+    for (const change of preview.changes) {
+      lines.push(
+        change.pageLabel
+          ? `${change.key} (page ${change.pageLabel})`
+          : change.key,
+      );
+      if (change.comment) {
+        diff("Comment", change.comment.from, change.comment.to);
+      }
+      if (change.tags) {
+        diff("Tags", change.tags.from.join(", "), change.tags.to.join(", "));
+      }
+      lines.push("");
+    }
+    for (const { key, error } of preview.skipped) {
+      lines.push(`${key}: not imported, ${error}`);
+    }
+    if (preview.missing.length > 0) {
+      lines.push(`Not found in Zotero: ${preview.missing.join(", ")}`);
+    }
+    return lines.join("\n").trim();
+  }
+
+  /**
+   * Comment and tags of a block's lines, without the lines written for the
+   * annotation itself.
+   */
+  private static readBlock(
+    syntax: ImportSyntax,
+    key: string,
+    lines: string[],
+    tagStyle: TagStyle,
+  ): ImportedBlock {
+    let libraryPath: string | null = null;
+    let regionEnd: RegExp | null = null;
+    const kept: string[] = [];
+
+    for (const line of lines) {
+      if (regionEnd) {
+        if (regionEnd.test(line)) regionEnd = null;
+        continue;
+      }
+      const link = ZoteroLinks.parseAnnotationLink(line);
+      if (link?.key === key) {
+        libraryPath = libraryPath ?? link.libraryPath;
+        continue;
+      }
+      const region = syntax.skipRegions.find(([start]) => start.test(line));
+      if (region) {
+        regionEnd = region[1];
+        continue;
+      }
+      if (!syntax.skipLine.test(line)) kept.push(line.trimEnd());
+    }
+
+    while (kept.length > 0 && !kept[kept.length - 1]) kept.pop();
+    let tags: string[] | null = null;
+    if (tagStyle !== "none") {
+      const last = kept[kept.length - 1]?.trim() ?? "";
+      const list = last.match(/^Tags: (.*)$/);
+      tags =
+        tagStyle === "list"
+          ? list && list[1].split(", ").filter((t) => t)
+          : syntax.readTags(last);
+      if (tags) kept.pop();
+      else tags = [];
+    }
+
+    return { key, libraryPath, comment: kept.join("\n").trim(), tags };
+  }
+
+  /**
+   * Library of a block from its link's library path, the default library if
+   * it has no link; null if the group is not in this Zotero.
+   */
+  private static libraryID(
+    libraryPath: string | null,
+    defaultLibraryID: number,
+  ): number | null {
+    if (!libraryPath) return defaultLibraryID;
+    const group = libraryPath.match(/^groups\/(\d+)$/);
+    if (!group) return Zotero.Libraries.userLibraryID;
+    return Zotero.Groups.getLibraryIDFromGroupID(parseInt(group[1])) || null;
+  }
+}
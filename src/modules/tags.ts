@@ -0,0 +1,59 @@
+/**
+ * Tag lookup for tag-scoped exports (tag selector context menu and HTTP
+ * API): the items with annotations carrying a tag, across a library.
+ *
+ * Tags are matched ignoring case, as in annotation filters. Tags on the
+ * items themselves do not count.
+ */
+
+import { isReaderAttachment } from "./annotationLocation";
+
+// Type for Zotero.Tags (not fully typed)
+interface ZoteroTagList {
+  Tags: {
+    getAll: (libraryID: number) => Promise<Array<{ tag: string }>>;
+    getID: (name: string) => number | false;
+    getTagItems: (libraryID: number, tagID: number) => Promise<number[]>;
+  };
+}
+
+export class TagItems {
+  /**
+   * Exportable items (regular items and standalone PDF, EPUB and snapshot
+   * attachments) with annotations tagged with a tag, sorted by title.
+   */
+  static async getItems(
+    libraryID: number,
+    tag: string,
+  ): Promise<Zotero.Item[]> {
+    const { Tags } = Zotero as unknown as ZoteroTagList;
+    const name = tag.trim().toLowerCase();
+    const taggedIDs = new Set<number>();
+
+    for (const { tag: other } of await Tags.getAll(libraryID)) {
+      if (other.toLowerCase() !== name) continue;
+      const tagID = Tags.getID(other);
+      if (!tagID) continue;
+      for (const id of await Tags.getTagItems(libraryID, tagID)) {
+        taggedIDs.add(id);
+      }
+    }
+    if (taggedIDs.size === 0) return [];
+
+    const items = new Map<number, Zotero.Item>();
+    const tagged = (await Zotero.Items.getAsync([
+      ...taggedIDs,
+    ])) as Zotero.Item[];
+    for (const annotation of tagged) {
+      const attachment = annotation.isAnnotation()
+        ? annotation.parentItem
+        : undefined;
+      if (!attachment || !isReaderAttachment(attachment)) continue;
+      const item = attachment.parentItem || attachment;
+      items.set(item.id, item);
+    }
+
+    const title = (item: Zotero.Item) => String(item.getField("title"));
+    return [...items.values()].sort((a, b) => title(a).localeCompare(title(b)));
+  }
+}
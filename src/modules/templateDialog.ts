@@ -0,0 +1,54 @@
+/**
+ * Dialog for choosing the template set of a context-menu export. Lists the
+ * built-in set and the user template sets for the format (see
+ * templates.ts).
+ */
+
+import { OutputFormat } from "./formatRegistry";
+import { DEFAULT_TEMPLATE_NAME, TemplateStore } from "./templates";
+
+export class TemplateDialog {
+  /**
+   * Whether there is a choice of templates for a format.
+   */
+  static hasChoice(format: OutputFormat): boolean {
+    return TemplateStore.getNames(format.id).length > 1;
+  }
+
+  /**
+   * Ask for a template set for exporting in a format. Returns its name, or
+   * null if the dialog was cancelled.
+   */
+  static async choose(format: OutputFormat): Promise<string | null> {
+    const names = TemplateStore.getNames(format.id);
+    const dialogData: Record<string, any> = { template: DEFAULT_TEMPLATE_NAME };
+
+    new ztoolkit.Dialog(2, 1)
+      .addCell(0, 0, {
+        tag: "label",
+        namespace: "html",
+        properties: { textContent: `Template for ${format.label} export:` },
+      })
+      .addCell(1, 0, {
+        tag: "select",
+        namespace: "html",
+        attributes: { "data-bind": "template", "data-prop": "value" },
+        children: names.map((name) => ({
+          tag: "option",
+          namespace: "html",
+          attributes: { value: name },
+          properties: {
+            textContent: name === DEFAULT_TEMPLATE_NAME ? "Built-in" : name,
+          },
+        })),
+      })
+      .addButton("Export", "export")
+      .addButton("Cancel", "cancel")
+      .setDialogData(dialogData)
+      .open("Choose Template", { centerscreen: true, fitContent: true });
+
+    await dialogData.unloadLock?.promise;
+    if (dialogData._lastButtonId !== "export") return null;
+    return String(dialogData.template || DEFAULT_TEMPLATE_NAME);
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Minimal Handlebars-style template engine for export templates.
+ *
+ * Syntax:
+ * - {{name}}                         variable
+ * - {{name | filter | filter}}       variable passed through filters
+ * - {{#if name}}...{{else}}...{{/if}}
+ * - {{#unless name}}...{{/unless}}
+ * - {{#each name}}...{{this}}...{{/each}}
+ *
+ * A value is truthy unless it is undefined, null, false, 0, an empty or
+ * whitespace-only string, or an empty array.
+ */
+
+export type TemplateValue =
+  string | number | boolean | string[] | undefined | null;
+
+export type TemplateContext = Record<string, TemplateValue>;
+
+type BlockType = "if" | "unless" | "each";
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "var"; name: string; filters: string[] }
+  | {
+      type: BlockType;
+      name: string;
+      body: TemplateNode[];
+      elseBody: TemplateNode[];
+    };
+
+type BlockNode = Extract<TemplateNode, { type: BlockType }>;
+
+const TAG_PATTERN = /\{\{\s*([^}]*?)\s*\}\}/g;
+const BLOCK_TYPES: BlockType[] = ["if", "unless", "each"];
+
+const FILTERS: Record<string, (value: string) => string> = {
+  trim: (value) => value.trim(),
+  upper: (value) => value.toUpperCase(),
+  lower: (value) => value.toLowerCase(),
+  // Escape for a double-quoted YAML string
+  yaml: (value) => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"'),
+  // Prefix every line as a markdown blockquote
+  quote: (value) =>
+    value
+      .split("\n")
+      .map((line) => "> " + line)
+      .join("\n"),
+  // Collapse to a single line
+  oneline: (value) => value.replace(/\s*\n\s*/g, " "),
+};
+
+const cache = new Map<string, TemplateNode[]>();
+
+/**
+ * Parse a template into a node tree.
+ * Throws an Error describing the first syntax problem found.
+ */
+function parse(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: BlockNode; active: TemplateNode[] }> = [];
+  let current = root;
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      current.push({ type: "text", value: template.slice(lastIndex, index) });
+    }
+    lastIndex = index + match[0].length;
+
+    const tag = match[1];
+    if (tag.startsWith("#")) {
+      const [keyword, name] = tag.slice(1).split(/\s+/, 2);
+      if (!BLOCK_TYPES.includes(keyword as BlockType) || !name) {
+        throw new Error(`Invalid block tag: {{${tag}}}`);
+      }
+      const node: BlockNode = {
+        type: keyword as BlockType,
+        name,
+        body: [],
+        elseBody: [],
+      };
+      current.push(node);
+      stack.push({ node, active: node.body });
+      current = node.body;
+    } else if (tag === "else") {
+      const frame = stack[stack.length - 1];
+      if (!frame || frame.active === frame.node.elseBody) {
+        throw new Error("Unexpected {{else}}");
+      }
+      frame.active = frame.node.elseBody;
+      current = frame.active;
+    } else if (tag.startsWith("/")) {
+      const frame = stack.pop();
+      if (!frame || frame.node.type !== tag.slice(1).trim()) {
+        throw new Error(`Unexpected closing tag: {{${tag}}}`);
+      }
+      current = stack.length > 0 ? stack[stack.length - 1].active : root;
+    } else {
+      const [name, ...filters] = tag.split("|").map((part) => part.trim());
+      for (const filter of filters) {
+        if (!FILTERS[filter]) {
+          throw new Error(`Unknown filter: ${filter}`);
+        }
+      }
+      current.push({ type: "var", name, filters });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(
+      `Unclosed block: {{#${stack[stack.length - 1].node.type}}}`,
+    );
+  }
+
+  if (lastIndex < template.length) {
+    current.push({ type: "text", value: template.slice(lastIndex) });
+  }
+
+  return root;
+}
+
+function isTruthy(value: TemplateValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === "string") return value.trim().length > 0;
+  return Boolean(value);
+}
+
+function stringify(value: TemplateValue): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], context: TemplateContext): string {
+  let output = "";
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        output += node.value;
+        break;
+      case "var":
+        output += node.filters.reduce(
+          (value, filter) => FILTERS[filter](value),
+          stringify(context[node.name]),
+        );
+        break;
+      case "if":
+      case "unless": {
+        const truthy = isTruthy(context[node.name]);
+        const branch =
+          truthy === (node.type === "if") ? node.body : node.elseBody;
+        output += renderNodes(branch, context);
+        break;
+      }
+      case "each": {
+        const value = context[node.name];
+        const list = Array.isArray(value) ? value : [];
+        if (list.length === 0) {
+          output += renderNodes(node.elseBody, context);
+        }
+        for (const entry of list) {
+          output += renderNodes(node.body, { ...context, this: entry });
+        }
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Render a template with the given variables.
+ * Parsed templates are cached by source text.
+ */
+export function renderTemplate(
+  template: string,
+  context: TemplateContext,
+): string {
+  let nodes = cache.get(template);
+  if (!nodes) {
+    nodes = parse(template);
+    cache.set(template, nodes);
+  }
+  return renderNodes(nodes, context);
+}
+
+/**
+ * Check a template for syntax errors.
+ * Returns the error message, or null if the template is valid.
+ */
+export function validateTemplate(template: string): string | null {
+  try {
+    parse(template);
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
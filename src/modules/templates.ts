@@ -0,0 +1,159 @@
+/**
+ * Lookup of export templates.
+ *
+ * Built-in templates come from each registered format. User templates are
+ * stored in the "templates" preference as a JSON array of template sets:
+ *   [{"name": "brief", "format": "md", "highlight": "{{text | quote}}\n"}]
+ * Any part a user template leaves out is taken from the format's built-in
+ * template set.
+ *
+ * Template sets are validated when the preference is saved from the
+ * preferences pane and when it is read: sets with an error (unknown format,
+ * template syntax error, ...) are left out, so exports never render them.
+ */
+
+import { getPref } from "../utils/prefs";
+import { TemplateSet } from "./defaultTemplates";
+import { FormatRegistry } from "./formatRegistry";
+import { validateTemplate } from "./templateEngine";
+
+export const DEFAULT_TEMPLATE_NAME = "default";
+
+type UserTemplateSet = Partial<TemplateSet> &
+  Pick<TemplateSet, "name" | "format">;
+
+const TEMPLATE_PARTS = [
+  "header",
+  "highlight",
+  "underline",
+  "note",
+  "image",
+  "ink",
+] as const;
+
+/**
+ * Why a template set cannot be used, null if it can.
+ */
+function checkTemplateSet(
+  value: unknown,
+  index: number,
+  seen: Set<string>,
+): string | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return `Template set ${index + 1} is not an object`;
+  }
+  const obj = value as Record<string, unknown>;
+  if (typeof obj.name !== "string" || !obj.name.trim()) {
+    return `Template set ${index + 1} has no name`;
+  }
+  const label = `Template "${obj.name}"`;
+  if (obj.name === DEFAULT_TEMPLATE_NAME) {
+    return `${label}: the name is reserved for the built-in templates`;
+  }
+  if (
+    typeof obj.format !== "string" ||
+    !FormatRegistry.get(obj.format)?.defaultTemplates
+  ) {
+    return `${label}: unknown format ${JSON.stringify(obj.format)}`;
+  }
+  const id = `${obj.format}/${obj.name}`;
+  if (seen.has(id)) return `${label} is defined twice for ${obj.format}`;
+  seen.add(id);
+
+  for (const part of TEMPLATE_PARTS) {
+    if (obj[part] === undefined) continue;
+    if (typeof obj[part] !== "string") {
+      return `${label}: ${part} is not a string`;
+    }
+    const error = validateTemplate(obj[part]);
+    if (error) return `${label}: ${part}: ${error}`;
+  }
+  return null;
+}
+
+export class TemplateStore {
+  /**
+   * Read a "templates" preference value: the valid template sets, and an
+   * error message for each set left out (or for the whole value).
+   */
+  static parse(raw: string): {
+    templates: UserTemplateSet[];
+    errors: string[];
+  } {
+    if (!raw.trim()) return { templates: [], errors: [] };
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (e) {
+      return {
+        templates: [],
+        errors: [`Invalid JSON: ${e instanceof Error ? e.message : String(e)}`],
+      };
+    }
+    if (!Array.isArray(parsed)) {
+      return {
+        templates: [],
+        errors: ["Templates must be a JSON array of template sets"],
+      };
+    }
+
+    const templates: UserTemplateSet[] = [];
+    const errors: string[] = [];
+    const seen = new Set<string>();
+    parsed.forEach((value: unknown, index) => {
+      const error = checkTemplateSet(value, index, seen);
+      if (error) errors.push(error);
+      else templates.push(value as UserTemplateSet);
+    });
+    return { templates, errors };
+  }
+
+  /**
+   * User-defined template sets from preferences.
+   * Invalid sets are logged and skipped.
+   */
+  static getUserTemplates(): UserTemplateSet[] {
+    const { templates, errors } = this.parse(getPref("templates") || "");
+    for (const error of errors) {
+      ztoolkit.log("Invalid templates preference:", error);
+    }
+    return templates;
+  }
+
+  /**
+   * Names of all template sets available for a format.
+   */
+  static getNames(format: string): string[] {
+    const names = [DEFAULT_TEMPLATE_NAME];
+    for (const template of this.getUserTemplates()) {
+      if (template.format === format && !names.includes(template.name)) {
+        names.push(template.name);
+      }
+    }
+    return names;
+  }
+
+  /**
+   * Check whether a named template set exists for a format.
+   */
+  static has(format: string, name: string): boolean {
+    return this.getNames(format).includes(name);
+  }
+
+  /**
+   * Resolve a template set for a format.
+   * Returns the built-in set when no name is given, or undefined if the
+   * format has no templates or the named set does not exist.
+   */
+  static get(format: string, name?: string): TemplateSet | undefined {
+    const builtin = FormatRegistry.get(format)?.defaultTemplates;
+    if (!builtin) return undefined;
+    if (!name || name === DEFAULT_TEMPLATE_NAME) return builtin;
+
+    const user = this.getUserTemplates().find(
+      (t) => t.format === format && t.name === name,
+    );
+    return user ? { ...builtin, ...user } : undefined;
+  }
+}
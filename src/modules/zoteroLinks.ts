@@ -0,0 +1,195 @@
+/**
+ * Links back to Zotero from exported annotations and note references.
+ *
+ * The "linkTarget" preference chooses what a link does:
+ * - open: open the attachment at the annotation
+ *     zotero://open-pdf/library/items/KEY?page=N&annotation=ANNOT_KEY
+ *     zotero://open-epub/groups/GROUP_ID/items/KEY?annotation=ANNOT_KEY
+ *     zotero://open/library/items/KEY?annotation=ANNOT_KEY (snapshots)
+ * - select: select the attachment in the Zotero item tree
+ *     zotero://select/library/items/KEY
+ * - web: show the attachment in the zotero.org web library
+ *     https://www.zotero.org/users/USER_ID/items/KEY
+ *     https://www.zotero.org/groups/GROUP_ID/items/KEY
+ *   Falls back to "open" for libraries that are not synced.
+ *
+ * Group libraries are addressed by their group ID, which differs from the
+ * local library ID.
+ */
+
+import { ZoteroAnnotation } from "./annotationFormatter";
+import {
+  AnnotationLocation,
+  EPUB_CONTENT_TYPE,
+  PDF_CONTENT_TYPE,
+} from "./annotationLocation";
+import { getPref } from "../utils/prefs";
+
+export type LinkTarget = "open" | "select" | "web";
+
+export interface ZoteroLink {
+  url: string;
+  /** Link text, e.g. "Page xii" or an EPUB location */
+  label: string;
+}
+
+const WEB_LIBRARY_URL = "https://www.zotero.org";
+
+// Type for Zotero.Libraries / Zotero.Users (not fully typed)
+interface ZoteroLibraryLookup {
+  Libraries: {
+    get: (id: number) => { libraryType: string; groupID?: number } | false;
+  };
+  Users: {
+    getCurrentUserID: () => number | null;
+  };
+}
+
+export class ZoteroLinks {
+  /**
+   * Link to an annotation, using the "linkTarget" preference unless a
+   * target is given.
+   */
+  static annotation(
+    attachmentKey: string,
+    libraryID: number,
+    annotation: ZoteroAnnotation,
+    contentType: string,
+    target: LinkTarget = this.target(),
+  ): ZoteroLink {
+    // The label is shown as printed; PDF links go to the physical page
+    const label = AnnotationLocation.label(annotation, contentType);
+    const page = (AnnotationLocation.pageIndex(annotation) ?? 0) + 1;
+
+    if (target === "select") {
+      return { url: this.select(libraryID, attachmentKey), label };
+    }
+    if (target === "web") {
+      const url = this.web(libraryID, attachmentKey);
+      if (url) return { url, label };
+    }
+
+    const libraryPath = this.libraryPath(libraryID);
+    let url: string;
+    if (contentType === PDF_CONTENT_TYPE) {
+      url = `zotero://open-pdf/${libraryPath}/items/${attachmentKey}?page=${page}&annotation=${annotation.key}`;
+    } else if (contentType === EPUB_CONTENT_TYPE) {
+      url = `zotero://open-epub/${libraryPath}/items/${attachmentKey}?annotation=${annotation.key}`;
+    } else {
+      // Snapshots and other reader types
+      url = `zotero://open/${libraryPath}/items/${attachmentKey}?annotation=${annotation.key}`;
+    }
+    return { url, label };
+  }
+
+  /**
+   * Link to an annotation referenced from a note by its attachment's URI
+   * and its key, using the "linkTarget" preference. Null if the annotation
+   * is not in the library.
+   */
+  static annotationByURI(
+    attachmentURI: string,
+    annotationKey: string,
+  ): ZoteroLink | null {
+    const attachmentRef = Zotero.URI.getURIItemLibraryKey(attachmentURI);
+    if (!attachmentRef) return null;
+    const { libraryID } = attachmentRef;
+    const item = Zotero.Items.getByLibraryAndKey(libraryID, annotationKey);
+    const attachment = item && item.isAnnotation() ? item.parentItem : null;
+    if (!item || !attachment) return null;
+    return this.annotation(
+      attachment.key,
+      libraryID,
+      item as unknown as ZoteroAnnotation,
+      attachment.attachmentContentType,
+    );
+  }
+
+  /**
+   * zotero://select link to an item.
+   */
+  static select(libraryID: number, itemKey: string): string {
+    return `zotero://select/${this.libraryPath(libraryID)}/items/${itemKey}`;
+  }
+
+  /**
+   * zotero.org web library link to an item, or null if the library is not
+   * synced.
+   */
+  static web(libraryID: number, itemKey: string): string | null {
+    const library = this.library(libraryID);
+    if (library?.libraryType === "group" && library.groupID) {
+      return `${WEB_LIBRARY_URL}/groups/${library.groupID}/items/${itemKey}`;
+    }
+    if (library?.libraryType === "user") {
+      const userID = (
+        Zotero as unknown as ZoteroLibraryLookup
+      ).Users.getCurrentUserID();
+      if (userID) return `${WEB_LIBRARY_URL}/users/${userID}/items/${itemKey}`;
+    }
+    return null;
+  }
+
+  /**
+   * Library part of zotero:// URLs: "library" for the user library,
+   * "groups/<groupID>" for group libraries.
+   */
+  static libraryPath(libraryID: number): string {
+    const library = this.library(libraryID);
+    if (library?.libraryType === "group" && library.groupID) {
+      return `groups/${library.groupID}`;
+    }
+    return "library";
+  }
+
+  /**
+   * Library path and key of a Zotero item URI, as used in note citations
+   * and annotation references, e.g. http://zotero.org/groups/123/items/KEY
+   * or http://zotero.org/users/local/abc/items/KEY. Null if not an item URI.
+   */
+  static parseItemURI(
+    uri: string,
+  ): { libraryPath: string; key: string } | null {
+    const match = uri.match(
+      /\/(users|groups)\/([^/]+)(?:\/[^/]+)?\/items\/(\w+)$/,
+    );
+    if (!match) return null;
+    return {
+      libraryPath: match[1] === "groups" ? `groups/${match[2]}` : "library",
+      key: match[3],
+    };
+  }
+
+  /**
+   * Library path and annotation key of the first zotero://open link to an
+   * annotation in a text, e.g. an exported link line. Null if none.
+   */
+  static parseAnnotationLink(
+    text: string,
+  ): { libraryPath: string; key: string } | null {
+    const match = text.match(
+      /zotero:\/\/open(?:-pdf|-epub)?\/(library|groups\/\d+)\/items\/\w+\?[^\s\])>]*?\bannotation=(\w+)/,
+    );
+    return match ? { libraryPath: match[1], key: match[2] } : null;
+  }
+
+  /**
+   * The configured link target, "open" if unset or unknown.
+   */
+  static target(): LinkTarget {
+    const target = getPref("linkTarget");
+    return target === "select" || target === "web" ? target : "open";
+  }
+
+  private static library(libraryID: number) {
+    try {
+      return (
+        (Zotero as unknown as ZoteroLibraryLookup).Libraries.get(libraryID) ||
+        null
+      );
+    } catch (e) {
+      ztoolkit.log("Could not look up library", libraryID, e);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { assert } from "chai";
+import {
+  AnnotationFilters,
+  parsePageRanges,
+} from "../src/modules/annotationFilter";
+import { ZoteroAnnotation } from "../src/modules/annotationFormatter";
+
+describe("annotationFilter", function () {
+  const annotation = (
+    key: string,
+    fields: Partial<ZoteroAnnotation>,
+    tags: string[] = [],
+  ) =>
+    ({
+      key,
+      annotationType: "highlight",
+      annotationPageLabel: "1",
+      annotationPosition: "{}",
+      getTags: () => tags.map((tag) => ({ tag })),
+      ...fields,
+    }) as ZoteroAnnotation;
+
+  const legend = { "#ff6666": "Disagreement" };
+  let annotations: ZoteroAnnotation[];
+
+  before(function () {
+    annotations = [
+      annotation("A", { annotationColor: "#ffd400" }, ["Important"]),
+      annotation("B", {
+        annotationType: "note",
+        annotationPageLabel: "12",
+        parentKey: "SUPPLEMENT",
+      }),
+      annotation(
+        "C",
+        { annotationColor: "#FF6666", dateModified: "2024-03-01 12:00:00" },
+        ["skip"],
+      ),
+    ];
+  });
+
+  const keys = (filter: object) =>
+    AnnotationFilters.apply(annotations, filter, legend).map((a) => a.key);
+
+  it("should parse page ranges", function () {
+    assert.deepEqual(parsePageRanges("1-3, 7"), [
+      { from: 1, to: 3 },
+      { from: 7, to: 7 },
+    ]);
+    assert.deepEqual(parsePageRanges("20-"), [{ from: 20, to: Infinity }]);
+    assert.isNull(parsePageRanges("5-2"));
+    assert.isNull(parsePageRanges("x"));
+  });
+
+  it("should reject invalid filters", function () {
+    assert.isDefined(AnnotationFilters.parse({ tags: "a" }).error);
+    assert.isDefined(AnnotationFilters.parse({ types: ["box"] }).error);
+    assert.isDefined(AnnotationFilters.parse({ modifiedSince: "soon" }).error);
+    assert.isUndefined(AnnotationFilters.parse(undefined).filter);
+  });
+
+  it("should match each filter criterion", function () {
+    assert.deepEqual(keys({}), ["A", "B", "C"]);
+    assert.deepEqual(keys({ tags: ["important"] }), ["A"]);
+    assert.deepEqual(keys({ allTags: ["important", "skip"] }), []);
+    assert.deepEqual(keys({ excludeTags: ["skip"] }), ["A", "B"]);
+    assert.deepEqual(keys({ colors: ["#ff6666"] }), ["C"]);
+    assert.deepEqual(keys({ excludeColors: ["disagreement"] }), ["A", "B"]);
+    assert.deepEqual(keys({ types: ["note"] }), ["B"]);
+    assert.deepEqual(keys({ pages: "10-" }), ["B"]);
+    assert.deepEqual(keys({ modifiedSince: "2024-01-01" }), ["C"]);
+    assert.deepEqual(keys({ attachments: ["SUPPLEMENT"] }), ["B"]);
+    assert.deepEqual(keys({ keys: ["C", "A"] }), ["A", "C"]);
+  });
+});
@@ -0,0 +1,86 @@
+import { assert } from "chai";
+import { AnnotationLocation } from "../src/modules/annotationLocation";
+import { ZoteroAnnotation } from "../src/modules/annotationFormatter";
+
+describe("annotationLocation", function () {
+  const annotation = (
+    pageLabel: string,
+    position: object,
+    sortIndex?: string,
+  ) =>
+    ({
+      key: pageLabel,
+      annotationType: "highlight",
+      annotationPageLabel: pageLabel,
+      annotationPosition: JSON.stringify(position),
+      annotationSortIndex: sortIndex,
+      getTags: () => [],
+    }) as ZoteroAnnotation;
+
+  const PDF = "application/pdf";
+  let frontMatter: ZoteroAnnotation;
+  let supplement: ZoteroAnnotation;
+  let body: ZoteroAnnotation;
+
+  before(function () {
+    frontMatter = annotation("xii", { pageIndex: 11 }, "00011|0|0");
+    supplement = annotation("S3", { pageIndex: 40 }, "00040|0|0");
+    body = annotation("1", { pageIndex: 14 }, "00014|0|0");
+  });
+
+  it("should sort by sort index, not page label", function () {
+    const sorted = [supplement, body, frontMatter].sort(
+      AnnotationLocation.compare,
+    );
+    assert.deepEqual(
+      sorted.map((a) => a.annotationPageLabel),
+      ["xii", "1", "S3"],
+    );
+  });
+
+  it("should label pages as printed", function () {
+    assert.equal(
+      AnnotationLocation.label(frontMatter, "application/pdf"),
+      "Page xii",
+    );
+    assert.equal(AnnotationLocation.pageIndex(frontMatter), 11);
+    assert.equal(AnnotationLocation.pageNumber(frontMatter), 12);
+    assert.equal(AnnotationLocation.pageNumber(body), 1);
+    const unlabelled = annotation("", { pageIndex: 4 });
+    assert.equal(AnnotationLocation.page(frontMatter, PDF), "xii");
+    assert.equal(AnnotationLocation.page(unlabelled, PDF), "5");
+  });
+
+  it("should not show EPUB CFIs as labels", function () {
+    const cfi = "epubcfi(/6/4!/4/2/1:0)";
+    const epub = annotation("", { type: "FragmentSelector", value: cfi });
+    assert.equal(AnnotationLocation.epubCFI(epub), cfi);
+    assert.isNull(AnnotationLocation.pageIndex(epub));
+    assert.isNull(AnnotationLocation.page(epub, "application/epub+zip"));
+    assert.equal(
+      AnnotationLocation.label(epub, "application/epub+zip"),
+      "Location",
+    );
+  });
+
+  it("should read PDF tops and EPUB spine indexes", function () {
+    const highlight = annotation("1", {
+      pageIndex: 0,
+      rects: [
+        [10, 700, 200, 712],
+        [10, 688, 150, 700],
+      ],
+    });
+    assert.equal(AnnotationLocation.top(highlight), 712);
+    assert.isNull(AnnotationLocation.top(frontMatter));
+    const epub = annotation("", {}, "00004|00001234");
+    assert.equal(AnnotationLocation.spineIndex(epub), 4);
+    assert.isNull(AnnotationLocation.spineIndex(body));
+  });
+
+  it("should label snapshot annotations by location", function () {
+    const snapshot = annotation("", { type: "CssSelector", value: "p" });
+    assert.isNull(AnnotationLocation.pageIndex(snapshot));
+    assert.equal(AnnotationLocation.label(snapshot, "text/html"), "Location");
+  });
+});
@@ -0,0 +1,37 @@
+import { assert } from "chai";
+import { AnnotationSearch } from "../src/modules/annotationSearch";
+import { ZoteroAnnotation } from "../src/modules/annotationFormatter";
+
+describe("annotationSearch", function () {
+  const annotation = {
+    key: "A",
+    annotationText: "Limits of  Working\nMemory",
+    annotationComment: "<p>See <b>chapter 3</b></p>",
+    getTags: () => [{ tag: "cognition" }],
+  } as unknown as ZoteroAnnotation;
+
+  const matches = (body: Record<string, unknown>) =>
+    AnnotationSearch.matcher(AnnotationSearch.parse(body).query!)(annotation);
+
+  it("should validate queries", function () {
+    assert.deepEqual(AnnotationSearch.parse({ query: "memory" }).query, {
+      query: "memory",
+      regex: false,
+      fields: ["text", "comment", "tags"],
+    });
+    assert.isDefined(AnnotationSearch.parse({ query: " " }).error);
+    assert.isDefined(AnnotationSearch.parse({ query: "(", regex: true }).error);
+    assert.isDefined(
+      AnnotationSearch.parse({ query: "a", fields: ["title"] }).error,
+    );
+  });
+
+  it("should match phrases and regular expressions", function () {
+    assert.isTrue(matches({ query: "working memory" }));
+    assert.isTrue(matches({ query: "Chapter 3" }));
+    assert.isTrue(matches({ query: "^cogn", regex: true }));
+    assert.isFalse(matches({ query: "memory limits" }));
+    assert.isFalse(matches({ query: "working memory", fields: ["comment"] }));
+    assert.isFalse(matches({ query: "<b>", fields: ["comment"] }));
+  });
+});
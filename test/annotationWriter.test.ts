@@ -0,0 +1,95 @@
+import { assert } from "chai";
+import {
+  AnnotationWriter,
+  DEFAULT_NOTE_COLOR,
+} from "../src/modules/annotationWriter";
+
+// Type for Zotero's PDF worker (not fully typed)
+interface PDFWorkerHost {
+  PDFWorker?: {
+    getFullText: (itemID: number) => Promise<{ totalPages: number }>;
+  };
+}
+
+describe("annotationWriter", function () {
+  const legend = { "#ff6666": "Disagreement" };
+  const host = Zotero as unknown as PDFWorkerHost;
+  let savedPDFWorker: PDFWorkerHost["PDFWorker"];
+
+  before(function () {
+    savedPDFWorker = host.PDFWorker;
+    host.PDFWorker = { getFullText: async () => ({ totalPages: 4 }) };
+  });
+
+  after(function () {
+    host.PDFWorker = savedPDFWorker;
+  });
+
+  it("should validate annotation changes", function () {
+    assert.deepEqual(
+      AnnotationWriter.parseChanges(
+        { comment: "", tags: [" a ", "b", "a", ""], color: "disagreement" },
+        legend,
+      ),
+      { changes: { comment: "", tags: ["a", "b"], color: "#ff6666" } },
+    );
+    assert.deepEqual(
+      AnnotationWriter.parseChanges({ color: "#2EA8E5" }, legend).changes,
+      { color: "#2ea8e5" },
+    );
+    assert.isDefined(AnnotationWriter.parseChanges({}, legend).error);
+    assert.isDefined(
+      AnnotationWriter.parseChanges({ tags: "a" }, legend).error,
+    );
+    assert.isDefined(
+      AnnotationWriter.parseChanges({ color: "teal" }, legend).error,
+    );
+  });
+
+  it("should validate and place note annotations", function () {
+    const { note } = AnnotationWriter.parseNote(
+      { page: 3, comment: "See ch. 3" },
+      legend,
+    );
+    assert.deepEqual(note, {
+      page: 3,
+      pageLabel: undefined,
+      comment: "See ch. 3",
+      color: DEFAULT_NOTE_COLOR,
+      tags: [],
+    });
+    assert.equal(AnnotationWriter.noteSortIndex(note!), "00002|000000|99999");
+    assert.equal(AnnotationWriter.notePosition(note!).pageIndex, 2);
+
+    assert.isDefined(
+      AnnotationWriter.parseNote({ page: 0, comment: "x" }, legend).error,
+    );
+    assert.isDefined(
+      AnnotationWriter.parseNote({ page: 1.5, comment: "x" }, legend).error,
+    );
+    assert.isDefined(AnnotationWriter.parseNote({ page: 1 }, legend).error);
+  });
+
+  it("should place notes on pages of any size", function () {
+    const { note } = AnnotationWriter.parseNote(
+      { page: 1, comment: "x" },
+      legend,
+    );
+    const [[, bottom, , top]] = AnnotationWriter.notePosition(note!).rects;
+    // Inside an A6 page (298 x 420 pt) as well as Letter and A4
+    assert.isAtLeast(bottom, 0);
+    assert.isAtMost(top, 420);
+  });
+
+  it("should refuse pages past the end of the PDF", async function () {
+    const attachment = { id: 1, key: "ATTKEY" } as Zotero.Item;
+    const page = async (n: number) =>
+      AnnotationWriter.pageError(
+        attachment,
+        AnnotationWriter.parseNote({ page: n, comment: "x" }, legend).note!,
+      );
+    assert.isNull(await page(4));
+    assert.match((await page(5))!, /past the end/);
+    assert.match((await page(9999))!, /past the end/);
+  });
+});
@@ -0,0 +1,27 @@
+import { assert } from "chai";
+import { ColorLegend } from "../src/modules/colorLegend";
+
+describe("colorLegend", function () {
+  it("should edit the legend as text", function () {
+    const legend = { "#ffd400": "Claim", "#ff6666": "Disagree = reject" };
+
+    assert.equal(
+      ColorLegend.toText(legend),
+      "#ffd400 = Claim\n#ff6666 = Disagree = reject",
+    );
+    assert.deepEqual(
+      ColorLegend.fromText("\n#FFD400=Claim \n#ff6666 = Disagree = reject\n"),
+      { legend },
+    );
+    assert.deepEqual(ColorLegend.fromText(" "), { legend: {} });
+  });
+
+  it("should report invalid legend lines", function () {
+    assert.match(ColorLegend.fromText("yellow = Claim").error!, /Line 1/);
+    assert.match(ColorLegend.fromText("#ffd400 =").error!, /Line 1/);
+    assert.match(
+      ColorLegend.fromText("#ffd400 = A\n#FFD400 = B").error!,
+      /Line 2: #ffd400 is listed twice/,
+    );
+  });
+});
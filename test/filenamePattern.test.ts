@@ -0,0 +1,38 @@
+import { assert } from "chai";
+import { FilenamePattern } from "../src/modules/filenamePattern";
+
+describe("filenamePattern", function () {
+  const tokens = {
+    citekey: "doe2020",
+    title: "On Things",
+    firstAuthor: "Doe",
+    year: "2020",
+    itemKey: "ABCD1234",
+  };
+
+  it("should expand known tokens and keep unknown ones", function () {
+    assert.equal(
+      FilenamePattern.expand("{firstAuthor}_{year} {title} {nope}", tokens),
+      "Doe_2020 On Things {nope}",
+    );
+  });
+
+  it("should keep non-ASCII titles", function () {
+    assert.equal(FilenamePattern.sanitize("机器学习 综述"), "机器学习_综述");
+    assert.equal(
+      FilenamePattern.sanitize("L'été à Montréal"),
+      "L'été_à_Montréal",
+    );
+  });
+
+  it("should remove characters that are invalid in filenames", function () {
+    assert.equal(FilenamePattern.sanitize('a/b\\c:d*e?"f<g>h|i'), "abcdefghi");
+    assert.equal(FilenamePattern.sanitize("..hidden."), "hidden");
+    assert.equal(FilenamePattern.sanitize("CON"), "_CON");
+    assert.equal(FilenamePattern.sanitize(" ?? "), "annotations");
+  });
+
+  it("should truncate without splitting characters", function () {
+    assert.equal(FilenamePattern.sanitize("😀😀😀", 2), "😀😀");
+  });
+});
@@ -0,0 +1,19 @@
+import { assert } from "chai";
+import { FormatRegistry } from "../src/modules/formatRegistry";
+
+describe("formatRegistry", function () {
+  it("should nest headings under a collection heading", function () {
+    const org = FormatRegistry.get("org")!;
+    assert.equal(
+      org.shiftHeadings!("* Title\n*bold*\n** Annotations\n", 2),
+      "*** Title\n*bold*\n**** Annotations\n",
+    );
+
+    const md = FormatRegistry.get("md")!;
+    assert.equal(
+      md.shiftHeadings!("# Title\n```\n# comment\n```\n#### Deep\n", 1),
+      "## Title\n```\n# comment\n```\n##### Deep\n",
+    );
+    assert.equal(md.shiftHeadings!("##### Deep\n", 3), "###### Deep\n");
+  });
+});
@@ -0,0 +1,45 @@
+import { assert } from "chai";
+import { ZoteroAnnotation } from "../src/modules/annotationFormatter";
+import { MarkdownFormatter } from "../src/modules/markdownFormatter";
+
+describe("markdownFormatter", function () {
+  const legend = { "#ffd400": "Claim" };
+  let highlight: ZoteroAnnotation;
+
+  before(function () {
+    highlight = {
+      key: "ANNOT123",
+      annotationType: "highlight",
+      annotationText: "A quote",
+      annotationColor: "#ffd400",
+      annotationPageLabel: "3",
+      annotationPosition: '{"pageIndex":2}',
+      getTags: () => [],
+    } as unknown as ZoteroAnnotation;
+  });
+
+  it("should show the color without a link", function () {
+    const output = MarkdownFormatter.format(
+      highlight,
+      "ATTACH12",
+      1,
+      "application/pdf",
+      { linkStyle: "none", showColor: true, colorLegend: legend },
+    );
+    assert.equal(output, '[Claim]{color="#ffd400"}\n\n> A quote\n');
+  });
+
+  it("should keep the color apart from a bare URL link", function () {
+    const output = MarkdownFormatter.format(
+      highlight,
+      "ATTACH12",
+      1,
+      "application/pdf",
+      { linkStyle: "url", showColor: true, colorLegend: legend },
+    );
+    assert.match(
+      output,
+      /^<zotero:\/\/[^>]+>\n\n\[Claim\]\{color="#ffd400"\}\n/,
+    );
+  });
+});
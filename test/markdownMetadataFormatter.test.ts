@@ -0,0 +1,46 @@
+import { assert } from "chai";
+import { MarkdownMetadataFormatter } from "../src/modules/markdownMetadataFormatter";
+import { getPref, setPref } from "../src/utils/prefs";
+
+// Type for the Better BibTeX plugin's key manager (not typed)
+interface BetterBibTeXHost {
+  BetterBibTeX?: {
+    KeyManager: { get: (itemID: number) => { citationKey: string } };
+  };
+}
+
+describe("markdownMetadataFormatter", function () {
+  const host = Zotero as unknown as BetterBibTeXHost;
+  let item: Zotero.Item;
+  let savedFields: string;
+  let savedBetterBibTeX: BetterBibTeXHost["BetterBibTeX"];
+
+  before(function () {
+    const fields: Record<string, string> = { title: "A Paper", extra: "" };
+    item = {
+      id: 7,
+      key: "ABCD1234",
+      getField: (name: string) => fields[name] ?? "",
+      getCreators: () => [],
+    } as unknown as Zotero.Item;
+
+    savedFields = getPref("metadataFields");
+    setPref("metadataFields", "citekey");
+    savedBetterBibTeX = host.BetterBibTeX;
+    host.BetterBibTeX = {
+      KeyManager: { get: () => ({ citationKey: "doe2020" }) },
+    };
+  });
+
+  after(function () {
+    setPref("metadataFields", savedFields);
+    host.BetterBibTeX = savedBetterBibTeX;
+  });
+
+  it("should include a citekey known only to Better BibTeX", function () {
+    assert.include(
+      MarkdownMetadataFormatter.format(item),
+      'title: "A Paper"\ncitekey: "doe2020"\n---',
+    );
+  });
+});
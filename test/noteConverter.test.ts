@@ -0,0 +1,97 @@
+import { assert } from "chai";
+import { NoteConverter } from "../src/modules/noteConverter";
+
+describe("noteConverter", function () {
+  let html: string;
+
+  before(function () {
+    html = [
+      "<h1>Summary &amp; notes</h1>",
+      '<p>Some <strong>bold</strong> and <a href="https://example.org">a link</a>.</p>',
+      "<ul><li>One</li><li>Two<ol><li>Nested</li></ol></li></ul>",
+      "<blockquote><p>Quoted</p></blockquote>",
+    ].join("\n");
+  });
+
+  it("should convert notes to Markdown", function () {
+    assert.equal(
+      NoteConverter.toMarkdown(html, { headingLevel: 3 }),
+      [
+        "### Summary & notes",
+        "Some **bold** and [a link](https://example.org).",
+        "- One\n- Two\n  1. Nested",
+        "> Quoted",
+      ].join("\n\n"),
+    );
+  });
+
+  it("should convert notes to org-mode", function () {
+    assert.equal(
+      NoteConverter.toOrg(html),
+      [
+        "* Summary & notes",
+        "Some *bold* and [[https://example.org][a link]].",
+        "- One\n- Two\n  1. Nested",
+        "#+begin_quote\nQuoted\n#+end_quote",
+      ].join("\n\n"),
+    );
+  });
+
+  it("should convert and escape annotation comments", function () {
+    const comment = "H<sub>2</sub>O is <b>key</b>\n# not a heading\n$x_1$";
+    assert.equal(
+      NoteConverter.commentToMarkdown(comment),
+      "H~2~O is **key**\n\\# not a heading\n$x_1$",
+    );
+    assert.equal(
+      NoteConverter.commentToOrg(comment),
+      "H_{2}O is *key*\n\u200b# not a heading\n$x_1$",
+    );
+  });
+
+  it("should read edited comments back", function () {
+    const comment = "H<sub>2</sub>O is <b>key</b>\n# not a heading\n$x_1$";
+    assert.equal(
+      NoteConverter.commentFromMarkdown(
+        NoteConverter.commentToMarkdown(comment),
+      ),
+      comment,
+    );
+    assert.equal(
+      NoteConverter.commentFromOrg(NoteConverter.commentToOrg(comment)),
+      comment,
+    );
+    assert.equal(
+      NoteConverter.commentFromMarkdown("\\*not\\* *new* a<b"),
+      "*not* <i>new</i> a&lt;b",
+    );
+    assert.equal(
+      NoteConverter.commentFromOrg("\u200b*not* /new/ and a/b/c"),
+      "*not* <i>new</i> and a/b/c",
+    );
+  });
+
+  it("should escape text that would end a block", function () {
+    assert.equal(
+      NoteConverter.escapeOrg("#+end_quote\n* item"),
+      "\u200b#+end_quote\n\u200b* item",
+    );
+    assert.equal(NoteConverter.escapeMarkdown("> a_b"), "\\> a\\_b");
+  });
+
+  it("should link embedded citations to the cited item", function () {
+    const citation = encodeURIComponent(
+      JSON.stringify({
+        citationItems: [
+          { uris: ["http://zotero.org/groups/77/items/ABCD1234"] },
+        ],
+      }),
+    );
+    assert.equal(
+      NoteConverter.toMarkdown(
+        `<p><span class="citation" data-citation="${citation}">(<span class="citation-item">Doe, 2020</span>)</span></p>`,
+      ),
+      "([Doe, 2020](zotero://select/groups/77/items/ABCD1234))",
+    );
+  });
+});
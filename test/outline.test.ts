@@ -0,0 +1,246 @@
+import { assert } from "chai";
+import { Outline, OutlineEntry } from "../src/modules/outline";
+import { PdfOutline } from "../src/modules/pdfOutline";
+
+describe("outline", function () {
+  const bytes = (text: string) => Uint8Array.from(text, (c) => c.charCodeAt(0));
+  const noInflate = async (): Promise<Uint8Array> => {
+    throw new Error("Not compressed");
+  };
+  const { subtle } = crypto as Crypto;
+
+  /** Uncompressed PDF with a cross-reference table, objects numbered from 1 */
+  const buildPdf = (objects: string[], shiftOffsets = 0, trailer = "") => {
+    let pdf = "%PDF-1.4\n";
+    const offsets = objects.map((object, i) => {
+      const offset = pdf.length;
+      pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+    const xref = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    for (const offset of offsets) {
+      pdf += `${String(offset + shiftOffsets).padStart(10, "0")} 00000 n \n`;
+    }
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R${trailer} >>\nstartxref\n${xref}\n%%EOF\n`;
+    return bytes(pdf);
+  };
+
+  const book = [
+    "<< /Type /Catalog /Pages 2 0 R /Outlines 5 0 R /Names << /Dests 10 0 R >> >>",
+    "<< /Type /Pages /Kids [3 0 R 4 0 R 11 0 R] /Count 3 >>",
+    "<< /Type /Page /Parent 2 0 R >>",
+    "<< /Type /Page /Parent 2 0 R >>",
+    "<< /Type /Outlines /First 6 0 R /Last 7 0 R >>",
+    "<< /Title (Chapter 1) /Parent 5 0 R /Next 7 0 R /First 8 0 R /Dest [3 0 R /XYZ 0 700 null] >>",
+    "<< /Title (Chapter\\0402) /Parent 5 0 R /Prev 6 0 R /Dest [12 0 R /FitH 500] >>",
+    "<< /Title <FEFF005300650063002E00C9> /Parent 6 0 R /A << /S /GoTo /D (sec) >> >>",
+    "<< /Limits [(a) (z)] /Names [(intro) [3 0 R /Fit] (sec) << /D [4 0 R /XYZ 0 300 0] >>] >>",
+    "<< /Kids [9 0 R] >>",
+    "<< /Type /Pages /Parent 2 0 R /Kids [12 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 11 0 R >>",
+  ];
+  const expected = [
+    {
+      title: "Chapter 1",
+      pageIndex: 0,
+      top: 700,
+      children: [{ title: "Sec.É", pageIndex: 1, top: 300, children: [] }],
+    },
+    { title: "Chapter 2", pageIndex: 2, top: 500, children: [] },
+  ];
+
+  /** PDF with the outline item "Chapter 1", its title encrypted */
+  const buildEncrypted = (encrypt: string, title: string) => {
+    const id = "0123456789ABCDEFFEDCBA9876543210";
+    return buildPdf(
+      [
+        "<< /Type /Catalog /Pages 2 0 R /Outlines 4 0 R >>",
+        "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+        "<< /Type /Page /Parent 2 0 R >>",
+        "<< /First 5 0 R >>",
+        `<< /Title <${title}> /Dest [3 0 R /Fit] >>`,
+        `<< /Filter /Standard /P -4 ${encrypt} >>`,
+      ],
+      0,
+      ` /Encrypt 6 0 R /ID [<${id}> <${id}>]`,
+    );
+  };
+  const rc4Owner =
+    "5A5A5A5A5A5A5A5A5A5A5A5A5A5A5A5A5A5A5A5A5A5A5A5A5A5A5A5A5A5A5A5A";
+  const rc4User =
+    "2DCCA622B8F5259E2C0F87774856D27600000000000000000000000000000000";
+
+  it("should read a PDF outline with named destinations", async function () {
+    assert.deepEqual(
+      await PdfOutline.read(buildPdf(book), noInflate, subtle),
+      expected,
+    );
+  });
+
+  it("should rebuild a broken xref table", async function () {
+    assert.deepEqual(
+      await PdfOutline.read(buildPdf(book, 7), noInflate, subtle),
+      expected,
+    );
+  });
+
+  it("should read PDFs encrypted without a user password", async function () {
+    const chapter = [
+      { title: "Chapter 1", pageIndex: 0, top: null, children: [] },
+    ];
+    const rc4 = buildEncrypted(
+      `/V 2 /R 3 /Length 128 /O <${rc4Owner}> /U <${rc4User}>`,
+      "CA790250F2BB3F0E67",
+    );
+    assert.deepEqual(await PdfOutline.read(rc4, noInflate, subtle), chapter);
+
+    const aes128 = buildEncrypted(
+      `/V 4 /R 4 /CF << /StdCF << /CFM /AESV2 /Length 16 >> >> /StmF /StdCF /StrF /StdCF /O <${rc4Owner}> /U <${rc4User}>`,
+      "07".repeat(16) + "AB590146212E7F11F86CCB7430994B13",
+    );
+    assert.deepEqual(await PdfOutline.read(aes128, noInflate, subtle), chapter);
+
+    const aes256 = buildEncrypted(
+      "/V 5 /R 6 /CF << /StdCF << /CFM /AESV3 /Length 32 >> >> /StmF /StdCF /StrF /StdCF" +
+        ` /O <${"5A".repeat(48)}> /OE <${"5A".repeat(32)}>` +
+        " /U <8D1EFB4F1BDBB651341704C2139DE4F6BE05D6D4609AF56916B21646ED74825C01020304050607081112131415161718>" +
+        " /UE <15E4DB5B31B3DAD4D19799ADFD0B517807BB4E9241D2BC37905ABD36340B1339>",
+      "09".repeat(16) + "715416D963A2B04D2FB59D0F8AB34595",
+    );
+    assert.deepEqual(await PdfOutline.read(aes256, noInflate, subtle), chapter);
+  });
+
+  it("should refuse PDFs that need a password", async function () {
+    const pdf = buildEncrypted(
+      `/V 2 /R 3 /Length 128 /O <${rc4Owner}> /U <${"00".repeat(32)}>`,
+      "CA790250F2BB3F0E67",
+    );
+    let error: unknown;
+    try {
+      await PdfOutline.read(pdf, noInflate, subtle);
+    } catch (e) {
+      error = e;
+    }
+    assert.match(String(error), /password/);
+  });
+
+  it("should read objects from object and xref streams", async function () {
+    const compressed: Array<[number, string]> = [
+      [1, "<< /Type /Catalog /Pages 2 0 R /Outlines 4 0 R >>"],
+      [2, "<< /Type /Pages /Kids [3 0 R] /Count 1 >>"],
+      [3, "<< /Type /Page /Parent 2 0 R >>"],
+      [4, "<< /First 6 0 R >>"],
+      [6, "<< /Title (Only) /Dest [3 0 R /Fit] >>"],
+    ];
+    let header = "";
+    let body = "";
+    for (const [num, object] of compressed) {
+      header += `${num} ${body.length} `;
+      body += object + "\n";
+    }
+    const objStm = header + body;
+    let pdf = "%PDF-1.5\n";
+    const objStmOffset = pdf.length;
+    pdf += `5 0 obj\n<< /Type /ObjStm /N ${compressed.length} /First ${header.length} /Length ${objStm.length} >>\nstream\n${objStm}\nendstream\nendobj\n`;
+
+    const xrefOffset = pdf.length;
+    const entry = (type: number, a: number, b: number) =>
+      String.fromCharCode(type, (a >> 8) & 0xff, a & 0xff, b);
+    const rows = [entry(0, 0, 255)];
+    for (let num = 1; num <= 7; num++) {
+      const index = compressed.findIndex(([n]) => n === num);
+      rows.push(
+        num === 5
+          ? entry(1, objStmOffset, 0)
+          : num === 7
+            ? entry(1, xrefOffset, 0)
+            : entry(2, 5, index),
+      );
+    }
+    const xref = rows.join("");
+    pdf += `7 0 obj\n<< /Type /XRef /Size 8 /W [1 2 1] /Root 1 0 R /Length ${xref.length} >>\nstream\n${xref}\nendstream\nendobj\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    assert.deepEqual(await PdfOutline.read(bytes(pdf), noInflate, subtle), [
+      { title: "Only", pageIndex: 0, top: null, children: [] },
+    ]);
+  });
+
+  it("should group items under the last heading before them", function () {
+    const outline: OutlineEntry[] = [
+      {
+        title: "One",
+        start: [0, -700],
+        children: [
+          { title: "One.A", start: [1, -Infinity], children: [] },
+          { title: "One.B", start: [3, -400], children: [] },
+        ],
+      },
+      { title: "Two", start: [5, -700], children: [] },
+    ];
+    const grouped = Outline.group(
+      outline,
+      [
+        [0, -800],
+        [0, -500],
+        [3, -300],
+        [1, -100],
+        [6, 0],
+        [3, -500],
+      ],
+      (item) => item,
+    );
+    assert.deepEqual(grouped.unplaced, [[0, -800]]);
+    assert.deepEqual(grouped.sections, [
+      {
+        title: "One",
+        items: [[0, -500]],
+        children: [
+          {
+            title: "One.A",
+            items: [
+              [1, -100],
+              [3, -500],
+            ],
+            children: [],
+          },
+          { title: "One.B", items: [[3, -300]], children: [] },
+        ],
+      },
+      { title: "Two", items: [[6, 0]], children: [] },
+    ]);
+
+    const shallow = Outline.group(outline, [[3, -300]], (item) => item, 1);
+    assert.deepEqual(shallow.sections, [
+      { title: "One", items: [[3, -300]], children: [] },
+    ]);
+  });
+
+  it("should read EPUB navigation by spine item", async function () {
+    const files: Record<string, string> = {
+      "META-INF/container.xml":
+        '<?xml version="1.0"?><container><rootfiles><rootfile full-path="OEBPS/content.opf"/></rootfiles></container>',
+      "OEBPS/content.opf": `<package><manifest>
+        <item id="nav" href="text/nav.xhtml" properties="nav"/>
+        <item id="c1" href="text/ch%201.xhtml"/>
+        <item id="c2" href="text/ch2.xhtml"/>
+        </manifest><spine><itemref idref="c1"/><itemref idref="c2"/></spine></package>`,
+      "OEBPS/text/nav.xhtml": `<html><body><nav epub:type="landmarks"><ol><li><a href="ch2.xhtml">Skip</a></li></ol></nav>
+        <nav epub:type="toc"><ol>
+        <li><a href="ch%201.xhtml">One</a><ol><li><a href="./ch%201.xhtml#s1">One &amp; a half</a></li></ol></li>
+        <li><a href="../text/ch2.xhtml">Two</a></li>
+        </ol></nav></body></html>`,
+    };
+    const outline = await Outline.parseEpub(
+      async (path) => files[path] ?? null,
+    );
+    assert.deepEqual(outline, [
+      {
+        title: "One",
+        start: [0],
+        children: [{ title: "One & a half", start: null, children: [] }],
+      },
+      { title: "Two", start: [1], children: [] },
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+import { assert } from "chai";
+import { FormatRegistry, OutputFormat } from "../src/modules/formatRegistry";
+import { SyncExport } from "../src/modules/syncExport";
+
+describe("syncExport", function () {
+  let org: OutputFormat;
+
+  before(function () {
+    org = FormatRegistry.get("org")!;
+  });
+  const block = (key: string, text: string) => ({ key, content: text + "\n" });
+  const wrapAll = (blocks: Array<{ key: string; content: string }>) =>
+    blocks.map((b) => SyncExport.wrap(org, b.key, b.content) + "\n").join("");
+
+  it("should keep user text and insert new annotations in order", function () {
+    const existing =
+      "* Title\n\n" +
+      wrapAll([block("AAAA", "a")]) +
+      "My own notes\n\n" +
+      wrapAll([block("CCCC", "c")]);
+
+    const result = SyncExport.merge(org, existing, [
+      block("AAAA", "a"),
+      block("BBBB", "b"),
+      block("CCCC", "c changed"),
+    ]);
+
+    assert.equal(result.added, 1);
+    assert.equal(result.updated, 1);
+    assert.equal(result.unchanged, 1);
+    assert.include(
+      result.content,
+      "My own notes\n\n# zotero-annotation BBBB\n",
+    );
+    assert.include(result.content, "c changed");
+    assert.deepEqual(SyncExport.findKeys(org, result.content), [
+      "AAAA",
+      "BBBB",
+      "CCCC",
+    ]);
+  });
+
+  it("should flag annotations deleted in Zotero", function () {
+    const existing = wrapAll([block("AAAA", "a"), block("BBBB", "b")]);
+    const result = SyncExport.merge(org, existing, [block("AAAA", "a")]);
+
+    assert.equal(result.deleted, 1);
+    assert.include(result.content, "# zotero-annotation BBBB deleted\nb\n");
+  });
+
+  it("should record the block style in markers", function () {
+    const style = { template: "my notes", tagStyle: "list" };
+    const text = SyncExport.wrap(org, "AAAA", "a\n", style);
+
+    assert.equal(
+      text,
+      "# zotero-annotation AAAA template=my%20notes tags=list\na\n# /zotero-annotation AAAA\n",
+    );
+    assert.deepEqual(SyncExport.blocks(org, text), [
+      { key: "AAAA", content: "a\n", style },
+    ]);
+    assert.equal(
+      SyncExport.merge(org, wrapAll([block("AAAA", "a")]), [
+        { ...block("AAAA", "a"), style },
+      ]).updated,
+      1,
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import { assert } from "chai";
+import { ZoteroAnnotation } from "../src/modules/annotationFormatter";
+import { FormatRegistry, OutputFormat } from "../src/modules/formatRegistry";
+import { SyncExport } from "../src/modules/syncExport";
+import { SyncImport } from "../src/modules/syncImport";
+
+describe("syncImport", function () {
+  let org: OutputFormat;
+  let md: OutputFormat;
+
+  before(function () {
+    org = FormatRegistry.get("org")!;
+    md = FormatRegistry.get("md")!;
+  });
+
+  const link = (key: string, library = "library") =>
+    `zotero://open-pdf/${library}/items/ATTKEY01?page=3&annotation=${key}`;
+
+  it("should read blocks by their key markers", function () {
+    const text =
+      "* Paper\n** Annotations\n\n" +
+      SyncExport.wrap(
+        org,
+        "AAAA1111",
+        [
+          `[[${link("AAAA1111")}][Page 3]]:`,
+          "#+attr_zotero: :color #ffd400 :label Yellow",
+          "#+begin_quote",
+          "Quoted text",
+          "#+end_quote",
+          "",
+          "Edited *comment*",
+          "on two lines",
+          ":method:to_read:",
+        ].join("\n"),
+        { template: "default", tagStyle: "native" },
+      ) +
+      "\nMy own notes\n\n" +
+      SyncExport.wrap(
+        org,
+        "BBBB2222",
+        [
+          `[[${link("BBBB2222", "groups/77")}][Page 4]]:`,
+          "#+begin_comment",
+          "A note",
+          "#+end_comment",
+        ].join("\n"),
+        { template: "default", tagStyle: "native" },
+      );
+
+    assert.deepEqual(SyncImport.parse(org, text, "native"), [
+      {
+        key: "AAAA1111",
+        libraryPath: "library",
+        comment: "Edited *comment*\non two lines",
+        tags: ["method", "to_read"],
+      },
+      {
+        key: "BBBB2222",
+        libraryPath: "groups/77",
+        comment: "A note",
+        tags: [],
+      },
+    ]);
+  });
+
+  it("should read tags in the list style", function () {
+    const text = SyncExport.wrap(
+      md,
+      "AAAA1111",
+      "> Quoted text\n\nNew comment\n\nTags: a tag, other\n",
+      { template: "default", tagStyle: "list" },
+    );
+
+    assert.deepEqual(SyncImport.parse(md, text, "list"), [
+      {
+        key: "AAAA1111",
+        libraryPath: null,
+        comment: "New comment",
+        tags: ["a tag", "other"],
+      },
+    ]);
+  });
+
+  it("should refuse files it cannot read as written", function () {
+    const block = (style?: { template: string; tagStyle: string }) =>
+      SyncExport.wrap(md, "AAAA1111", "> Quoted\n\nComment\n", style);
+
+    assert.match(
+      SyncImport.unreadable(md, `[Page 3](${link("AAAA1111")})\n`, "list")!,
+      /No annotation markers/,
+    );
+    assert.match(SyncImport.unreadable(md, block(), "list")!, /older version/);
+    assert.match(
+      SyncImport.unreadable(
+        md,
+        block({ template: "brief", tagStyle: "list" }),
+        "list",
+      )!,
+      /"brief" template/,
+    );
+    assert.match(
+      SyncImport.unreadable(
+        md,
+        block({ template: "default", tagStyle: "native" }),
+        "list",
+      )!,
+      /"native" tag style/,
+    );
+    assert.isNull(
+      SyncImport.unreadable(
+        md,
+        block({ template: "default", tagStyle: "list" }),
+        "list",
+      ),
+    );
+    assert.throws(() => SyncImport.parse(md, block(), "list"), /older/);
+  });
+
+  it("should only report what changed", function () {
+    const annotation = {
+      key: "AAAA1111",
+      annotationType: "highlight",
+      annotationComment: "Keep <b>this</b>",
+      annotationPageLabel: "3",
+      annotationPosition: "{}",
+      getTags: () => [{ tag: "to read" }, { tag: "method" }],
+    } as ZoteroAnnotation;
+    const block = {
+      key: "AAAA1111",
+      libraryPath: null,
+      comment: "Keep *this*",
+      tags: ["method", "to_read"],
+    };
+
+    assert.deepEqual(SyncImport.diff(org, block, annotation, "native"), {});
+    assert.deepEqual(
+      SyncImport.diff(
+        org,
+        { ...block, comment: "Changed", tags: ["to_read", "new"] },
+        annotation,
+        "native",
+      ),
+      {
+        comment: { from: "Keep *this*", to: "Changed" },
+        tags: { from: ["to read", "method"], to: ["to read", "new"] },
+      },
+    );
+  });
+});
@@ -0,0 +1,34 @@
+import { assert } from "chai";
+import {
+  renderTemplate,
+  validateTemplate,
+} from "../src/modules/templateEngine";
+
+describe("templateEngine", function () {
+  it("should substitute variables and apply filters", function () {
+    assert.equal(
+      renderTemplate('title: "{{title | yaml}}"', { title: 'A "B"' }),
+      'title: "A \\"B\\""',
+    );
+    assert.equal(
+      renderTemplate("{{text | quote}}", { text: "a\nb" }),
+      "> a\n> b",
+    );
+  });
+
+  it("should render conditional and loop blocks", function () {
+    const template =
+      "{{#if comment}}[{{comment}}]{{else}}none{{/if}} {{#each tagList}}#{{this}} {{/each}}";
+    assert.equal(
+      renderTemplate(template, { comment: "c", tagList: ["a", "b"] }),
+      "[c] #a #b ",
+    );
+    assert.equal(renderTemplate(template, { comment: "  " }), "none ");
+  });
+
+  it("should report syntax errors", function () {
+    assert.isNull(validateTemplate("{{#if a}}x{{/if}}"));
+    assert.match(validateTemplate("{{#if a}}x") || "", /Unclosed block/);
+    assert.match(validateTemplate("{{a | nope}}") || "", /Unknown filter/);
+  });
+});
@@ -0,0 +1,34 @@
+import { assert } from "chai";
+import { TemplateStore } from "../src/modules/templates";
+
+describe("templates", function () {
+  it("should keep valid template sets and report the others", function () {
+    const { templates, errors } = TemplateStore.parse(
+      JSON.stringify([
+        { name: "brief", format: "md", highlight: "{{text | quote}}\n" },
+        { name: "broken", format: "md", highlight: "{{#if comment}}x" },
+        { name: "brief", format: "md" },
+        { name: "other", format: "docx" },
+        { name: "default", format: "org" },
+        { format: "org" },
+      ]),
+    );
+
+    assert.deepEqual(
+      templates.map((t) => t.name),
+      ["brief"],
+    );
+    assert.lengthOf(errors, 5);
+    assert.match(errors[0], /"broken": highlight: Unclosed block/);
+    assert.match(errors[1], /defined twice/);
+    assert.match(errors[2], /unknown format "docx"/);
+    assert.match(errors[3], /reserved/);
+    assert.match(errors[4], /no name/);
+  });
+
+  it("should report values that are not a list of template sets", function () {
+    assert.match(TemplateStore.parse("[{").errors[0], /Invalid JSON/);
+    assert.match(TemplateStore.parse("{}").errors[0], /JSON array/);
+    assert.deepEqual(TemplateStore.parse(""), { templates: [], errors: [] });
+  });
+});
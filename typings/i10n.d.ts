@@ -13,9 +13,48 @@ export type FluentMessageId =
   | 'menuitem-label'
   | 'menuitem-submenulabel'
   | 'menupopup-label'
-  | 'pref-enable'
+  | 'pref-auto-export'
+  | 'pref-auto-export-delay'
+  | 'pref-auto-export-directory'
+  | 'pref-auto-export-filename'
+  | 'pref-auto-export-format'
+  | 'pref-auto-export-title'
+  | 'pref-browse'
+  | 'pref-citations'
+  | 'pref-content-title'
+  | 'pref-default-format'
+  | 'pref-embed-keys'
+  | 'pref-export-directory'
+  | 'pref-filename-collision'
+  | 'pref-filename-collision-overwrite'
+  | 'pref-filename-collision-skip'
+  | 'pref-filename-collision-suffix'
+  | 'pref-filename-pattern'
+  | 'pref-filename-pattern-help'
+  | 'pref-group-by-color'
+  | 'pref-group-by-outline'
   | 'pref-help'
-  | 'pref-input'
+  | 'pref-include-abstract'
+  | 'pref-include-notes'
+  | 'pref-link-style'
+  | 'pref-link-style-label'
+  | 'pref-link-style-none'
+  | 'pref-link-style-url'
+  | 'pref-link-target'
+  | 'pref-link-target-open'
+  | 'pref-link-target-select'
+  | 'pref-link-target-web'
+  | 'pref-metadata-fields'
+  | 'pref-metadata-fields-help'
+  | 'pref-show-color'
+  | 'pref-sort-order'
+  | 'pref-sort-order-date-added'
+  | 'pref-sort-order-date-modified'
+  | 'pref-sort-order-position'
+  | 'pref-tag-style'
+  | 'pref-tag-style-list'
+  | 'pref-tag-style-native'
+  | 'pref-tag-style-none'
   | 'pref-title'
   | 'prefs-table-detail'
   | 'prefs-table-title'
@@ -7,8 +7,29 @@
 declare namespace _ZoteroTypes {
   interface Prefs {
     PluginPrefsMap: {
-      "enable": boolean;
-      "input": string;
+      "defaultFormat": string;
+      "exportDirectory": string;
+      "filenamePattern": string;
+      "filenameCollision": string;
+      "includeAbstract": boolean;
+      "includeNotes": boolean;
+      "metadataFields": string;
+      "tagStyle": string;
+      "linkStyle": string;
+      "linkTarget": string;
+      "sortOrder": string;
+      "templates": string;
+      "colorLegend": string;
+      "groupByColor": boolean;
+      "groupByOutline": boolean;
+      "showColor": boolean;
+      "citations": boolean;
+      "embedKeys": boolean;
+      "autoExport": boolean;
+      "autoExportDir": string;
+      "autoExportFormat": string;
+      "autoExportFilename": string;
+      "autoExportDelay": number;
     };
   }
 }